@@ -0,0 +1,10 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/tests/**/*.test.ts'],
+  // Suites run against in-memory databases and local servers; one at a time
+  // keeps their ports and timers apart
+  maxWorkers: 1
+};
@@ -0,0 +1,46 @@
+/**
+ * Supervisor Configuration Module
+ * Detects when the backend runs as a Home Assistant add-on and talks to
+ * Home Assistant through the Supervisor proxy instead of a user token
+ */
+
+import { HAInstanceConfig } from '../types';
+
+export const SUPERVISOR_DEFAULT_URL = 'http://supervisor';
+
+export interface SupervisorOptions {
+  token: string;
+  // Home Assistant core behind the proxy, e.g. http://supervisor/core
+  coreUrl: string;
+}
+
+/**
+ * Supervisor options from the environment, or null outside an add-on.
+ * SUPERVISOR_URL only exists to point the backend at a stand-in proxy.
+ */
+export function getSupervisorOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SupervisorOptions | null {
+  const token = env.SUPERVISOR_TOKEN;
+  if (!token) {
+    return null;
+  }
+
+  const baseUrl = (env.SUPERVISOR_URL || SUPERVISOR_DEFAULT_URL).replace(/\/+$/, '');
+  return { token, coreUrl: `${baseUrl}/core` };
+}
+
+/**
+ * Default Home Assistant instance served through the Supervisor proxy
+ */
+export function getSupervisorInstanceConfig(
+  options: SupervisorOptions,
+  id: string,
+  name = 'Home Assistant'
+): HAInstanceConfig {
+  return {
+    id,
+    name,
+    url: options.coreUrl,
+    token: options.token,
+    mode: 'addon'
+  };
+}
@@ -5,6 +5,7 @@
 
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { X509Certificate } from 'crypto';
 import https from 'https';
 
 export interface TLSConfig {
@@ -91,6 +92,14 @@ export function getTLSOptionsFromEnv(): TLSOptions {
   };
 }
 
+/**
+ * SHA-256 fingerprint of the server certificate (first in the PEM chain),
+ * as colon-separated hex, for clients that pin it
+ */
+export function getCertificateFingerprint(certPem: string): string {
+  return new X509Certificate(certPem).fingerprint256;
+}
+
 /**
  * Create HTTPS server options with security best practices
  */
@@ -5,13 +5,19 @@
 import Database from 'better-sqlite3';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { Client, PairingSession } from '../types';
+import { Client, PairingSession, PairingApprovalRequest, PairingApprovalStatus, RevokedCertificate, Area, AreaLink, AreaLinkDiff, Dashboard, DashboardView } from '../types';
 
 export class DatabaseService {
   private db: Database.Database;
 
-  constructor(dbPath: string) {
-    this.db = new Database(dbPath, { verbose: console.log });
+  constructor(dbPathOrHandle: string | Database.Database) {
+    // Reuse an already configured connection (e.g. from index-simple.ts)
+    if (typeof dbPathOrHandle !== 'string') {
+      this.db = dbPathOrHandle;
+      return;
+    }
+
+    this.db = new Database(dbPathOrHandle, { verbose: console.log });
     this.db.pragma('journal_mode = WAL');
     this.db.pragma('foreign_keys = ON');
     this.initialize();
@@ -26,8 +32,11 @@ export class DatabaseService {
   createClient(client: Omit<Client, 'id'>): Client {
     const id = this.generateId();
     const stmt = this.db.prepare(`
-      INSERT INTO clients (id, name, device_type, public_key, certificate, paired_at, last_seen, metadata)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO clients (
+        id, name, device_type, public_key, certificate, paired_at, last_seen, metadata,
+        certificate_serial, certificate_expires_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -38,7 +47,9 @@ export class DatabaseService {
       client.certificate,
       client.paired_at,
       client.last_seen,
-      JSON.stringify(client.metadata || {})
+      JSON.stringify(client.metadata || {}),
+      client.certificate_serial || null,
+      client.certificate_expires_at || null
     );
 
     return { ...client, id, is_active: true };
@@ -73,6 +84,10 @@ export class DatabaseService {
       fields.push('name = ?');
       values.push(updates.name);
     }
+    if (updates.device_type !== undefined) {
+      fields.push('device_type = ?');
+      values.push(updates.device_type);
+    }
     if (updates.last_seen !== undefined) {
       fields.push('last_seen = ?');
       values.push(updates.last_seen);
@@ -100,6 +115,25 @@ export class DatabaseService {
     return result.changes > 0;
   }
 
+  // Certificate Revocation
+  revokeCertificate(serialNumber: string, clientId: string | null, reason?: string): void {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO revoked_certificates (serial_number, client_id, reason, revoked_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    stmt.run(serialNumber, clientId, reason || null, Date.now());
+  }
+
+  isCertificateRevoked(serialNumber: string): boolean {
+    const stmt = this.db.prepare('SELECT 1 FROM revoked_certificates WHERE serial_number = ?');
+    return stmt.get(serialNumber) !== undefined;
+  }
+
+  getRevokedCertificates(): RevokedCertificate[] {
+    const stmt = this.db.prepare('SELECT * FROM revoked_certificates ORDER BY revoked_at');
+    return stmt.all() as RevokedCertificate[];
+  }
+
   // Pairing Session Operations
   createPairingSession(pin: string, expiresAt: number): PairingSession {
     const id = this.generateId();
@@ -116,23 +150,65 @@ export class DatabaseService {
   getPairingSession(pin: string): PairingSession | null {
     const stmt = this.db.prepare('SELECT * FROM pairing_sessions WHERE pin = ? AND used = 0');
     const row = stmt.get(pin) as any;
-    return row ? {
-      id: row.id,
-      pin: row.pin,
-      expires_at: row.expires_at,
-      created_at: row.created_at
-    } : null;
+    return row ? this.mapPairingSession(row) : null;
+  }
+
+  getPairingSessionById(id: string): PairingSession | null {
+    const stmt = this.db.prepare('SELECT * FROM pairing_sessions WHERE id = ?');
+    const row = stmt.get(id) as any;
+    return row ? this.mapPairingSession(row) : null;
+  }
+
+  markPairingSessionUsed(id: string, clientId?: string): boolean {
+    const stmt = this.db.prepare('UPDATE pairing_sessions SET used = 1, client_id = ? WHERE id = ?');
+    const result = stmt.run(clientId || null, id);
+    return result.changes > 0;
+  }
+
+  // Only an unused session without a request can go to pending_approval
+  requestPairingApproval(id: string, request: PairingApprovalRequest, expiresAt: number): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE pairing_sessions SET approval_status = 'pending_approval', request = ?, expires_at = ?
+      WHERE id = ? AND used = 0 AND approval_status IS NULL
+    `);
+    const result = stmt.run(JSON.stringify(request), expiresAt, id);
+    return result.changes > 0;
   }
 
-  markPairingSessionUsed(pin: string): boolean {
-    const stmt = this.db.prepare('UPDATE pairing_sessions SET used = 1 WHERE pin = ?');
-    const result = stmt.run(pin);
+  // Moves the approval status only if it is still `from`, so concurrent
+  // decisions can't both succeed
+  updatePairingApprovalStatus(
+    id: string,
+    from: PairingApprovalStatus,
+    to: PairingApprovalStatus,
+    expiresAt?: number
+  ): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE pairing_sessions SET approval_status = ?, expires_at = COALESCE(?, expires_at)
+      WHERE id = ? AND approval_status = ?
+    `);
+    const result = stmt.run(to, expiresAt ?? null, id, from);
     return result.changes > 0;
   }
 
+  getExpiredPairingApprovals(): PairingSession[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM pairing_sessions WHERE approval_status = 'pending_approval' AND expires_at < ?
+    `);
+    return stmt.all(Date.now()).map((row: any) => this.mapPairingSession(row));
+  }
+
+  // Only unused sessions can be cancelled
+  deletePairingSession(id: string): boolean {
+    const stmt = this.db.prepare('DELETE FROM pairing_sessions WHERE id = ? AND used = 0');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+
+  // Used sessions are kept until they expire so their status can be looked up
   cleanExpiredPairingSessions(): number {
     const now = Date.now();
-    const stmt = this.db.prepare('DELETE FROM pairing_sessions WHERE expires_at < ? OR used = 1');
+    const stmt = this.db.prepare('DELETE FROM pairing_sessions WHERE expires_at < ?');
     const result = stmt.run(now);
     return result.changes;
   }
@@ -161,18 +237,217 @@ export class DatabaseService {
     );
   }
 
+  cacheEntities(states: any[]): void {
+    const upsertAll = this.db.transaction((entities: any[]) => {
+      entities.forEach(state => this.cacheEntity(state.entity_id, state));
+    });
+    upsertAll(states);
+  }
+
+  // Replace the cached states of one HA instance; entity IDs of instances
+  // other than the default are stored as <namespace>:<entity_id>
+  replaceEntityCache(states: any[], namespace: string | null = null): void {
+    const replaceAll = this.db.transaction((entities: any[]) => {
+      if (namespace) {
+        const prefix = `${namespace}:`;
+        this.db.prepare('DELETE FROM entity_cache WHERE substr(entity_id, 1, ?) = ?').run(prefix.length, prefix);
+      } else {
+        this.db.prepare(`DELETE FROM entity_cache WHERE instr(entity_id, ':') = 0`).run();
+      }
+      entities.forEach(state => this.cacheEntity(state.entity_id, state));
+    });
+    replaceAll(states);
+  }
+
   getCachedEntity(entityId: string): any | null {
     const stmt = this.db.prepare('SELECT * FROM entity_cache WHERE entity_id = ?');
     const row = stmt.get(entityId) as any;
-    if (!row) return null;
+    return row ? this.mapCachedEntity(row) : null;
+  }
 
-    return {
-      entity_id: row.entity_id,
-      state: row.state,
-      attributes: JSON.parse(row.attributes),
-      last_changed: row.last_changed,
-      last_updated: row.last_updated
-    };
+  getAllCachedEntities(): any[] {
+    const stmt = this.db.prepare('SELECT * FROM entity_cache ORDER BY entity_id');
+    const rows = stmt.all() as any[];
+    return rows.map(this.mapCachedEntity);
+  }
+
+  deleteCachedEntity(entityId: string): boolean {
+    const stmt = this.db.prepare('DELETE FROM entity_cache WHERE entity_id = ?');
+    const result = stmt.run(entityId);
+    return result.changes > 0;
+  }
+
+  // Area Operations
+  createArea(id: string, name: string, entityIds: string[]): Area {
+    const stmt = this.db.prepare('INSERT INTO areas (id, name, entity_ids, is_enabled) VALUES (?, ?, ?, 1)');
+    stmt.run(id, name, JSON.stringify(entityIds));
+    return this.getArea(id)!;
+  }
+
+  getArea(id: string): Area | null {
+    const stmt = this.db.prepare('SELECT * FROM areas WHERE id = ?');
+    const row = stmt.get(id) as any;
+    return row ? this.mapArea(row) : null;
+  }
+
+  updateArea(id: string, updates: { name?: string; entityIds?: string[] }): boolean {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.name !== undefined) {
+      fields.push('name = ?');
+      values.push(updates.name);
+    }
+    if (updates.entityIds !== undefined) {
+      fields.push('entity_ids = ?');
+      values.push(JSON.stringify(updates.entityIds));
+    }
+
+    if (fields.length === 0) return false;
+
+    values.push(id);
+    const stmt = this.db.prepare(`UPDATE areas SET ${fields.join(', ')} WHERE id = ?`);
+    const result = stmt.run(...values);
+    return result.changes > 0;
+  }
+
+  // Area Links
+  createAreaLink(link: Pick<AreaLink, 'areaId' | 'haAreaId' | 'linked' | 'haName' | 'haEntityIds'>): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO area_links (area_id, ha_area_id, linked, ha_name, ha_entity_ids)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    stmt.run(link.areaId, link.haAreaId, link.linked ? 1 : 0, link.haName, JSON.stringify(link.haEntityIds));
+  }
+
+  getAreaLink(areaId: string): AreaLink | null {
+    // Join on areas so links left behind by a deleted area are never returned
+    const stmt = this.db.prepare(`
+      SELECT l.* FROM area_links l JOIN areas a ON a.id = l.area_id WHERE l.area_id = ?
+    `);
+    const row = stmt.get(areaId) as any;
+    return row ? this.mapAreaLink(row) : null;
+  }
+
+  getAreaLinks(linkedOnly = false): AreaLink[] {
+    const query = linkedOnly
+      ? 'SELECT l.* FROM area_links l JOIN areas a ON a.id = l.area_id WHERE l.linked = 1 ORDER BY l.area_id'
+      : 'SELECT l.* FROM area_links l JOIN areas a ON a.id = l.area_id ORDER BY l.area_id';
+    const rows = this.db.prepare(query).all() as any[];
+    return rows.map(row => this.mapAreaLink(row));
+  }
+
+  updateAreaLink(
+    areaId: string,
+    updates: Partial<Pick<AreaLink, 'linked' | 'haName' | 'haEntityIds' | 'pendingDiff'>>
+  ): boolean {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.linked !== undefined) {
+      fields.push('linked = ?');
+      values.push(updates.linked ? 1 : 0);
+    }
+    if (updates.haName !== undefined) {
+      fields.push('ha_name = ?');
+      values.push(updates.haName);
+    }
+    if (updates.haEntityIds !== undefined) {
+      fields.push('ha_entity_ids = ?');
+      values.push(JSON.stringify(updates.haEntityIds));
+    }
+    if (updates.pendingDiff !== undefined) {
+      // Keep the original detection time while a diff is only being amended
+      fields.push('pending_diff = ?', `diff_detected_at = CASE WHEN ? IS NULL THEN NULL ELSE COALESCE(diff_detected_at, strftime('%s', 'now')) END`);
+      const diff = updates.pendingDiff ? JSON.stringify(updates.pendingDiff) : null;
+      values.push(diff, diff);
+    }
+
+    if (fields.length === 0) return false;
+
+    fields.push(`updated_at = strftime('%s', 'now')`);
+    values.push(areaId);
+    const stmt = this.db.prepare(`UPDATE area_links SET ${fields.join(', ')} WHERE area_id = ?`);
+    const result = stmt.run(...values);
+    return result.changes > 0;
+  }
+
+  // Dashboard Operations
+  createDashboard(
+    dashboard: { name: string; views: DashboardView[]; isDefault?: boolean },
+    createdBy: string,
+    id: string = `dashboard_${this.generateId()}`
+  ): Dashboard {
+    const create = this.db.transaction(() => {
+      if (dashboard.isDefault) {
+        this.clearDefaultDashboard();
+      }
+      const stmt = this.db.prepare('INSERT INTO dashboards (id, name, config, created_by) VALUES (?, ?, ?, ?)');
+      stmt.run(id, dashboard.name, JSON.stringify({ views: dashboard.views, isDefault: !!dashboard.isDefault }), createdBy);
+    });
+    create();
+    return this.getDashboard(id)!;
+  }
+
+  getDashboard(id: string): Dashboard | null {
+    const stmt = this.db.prepare('SELECT * FROM dashboards WHERE id = ?');
+    const row = stmt.get(id) as any;
+    return row ? this.mapDashboard(row) : null;
+  }
+
+  getAllDashboards(): Dashboard[] {
+    const stmt = this.db.prepare('SELECT * FROM dashboards ORDER BY created_at, name');
+    const rows = stmt.all() as any[];
+    return rows.map(row => this.mapDashboard(row));
+  }
+
+  updateDashboard(id: string, updates: { name?: string; views?: DashboardView[]; isDefault?: boolean }): boolean {
+    const existing = this.getDashboard(id);
+    if (!existing) return false;
+
+    const update = this.db.transaction(() => {
+      if (updates.isDefault) {
+        this.clearDefaultDashboard();
+      }
+      const config = {
+        views: updates.views ?? existing.views,
+        isDefault: updates.isDefault ?? existing.isDefault
+      };
+      const stmt = this.db.prepare(`
+        UPDATE dashboards SET name = ?, config = ?, updated_at = strftime('%s', 'now') WHERE id = ?
+      `);
+      stmt.run(updates.name ?? existing.name, JSON.stringify(config), id);
+    });
+    update();
+    return true;
+  }
+
+  deleteDashboard(id: string): boolean {
+    const stmt = this.db.prepare('DELETE FROM dashboards WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+
+  private clearDefaultDashboard(): void {
+    this.db.prepare(`UPDATE dashboards SET config = json_set(config, '$.isDefault', json('false'))`).run();
+  }
+
+  // Users
+  /**
+   * Id of the users row for a username, creating it if needed. Used to anchor
+   * ownership (created_by) when the admin authenticates from environment
+   * credentials; '!' never matches a password hash, so the row can't log in.
+   */
+  ensureUser(username: string, role = 'user'): string {
+    const existing = this.db.prepare('SELECT id FROM users WHERE username = ?').get(username) as any;
+    if (existing) {
+      return existing.id;
+    }
+
+    const id = `user_${Date.now()}`;
+    this.db.prepare('INSERT INTO users (id, username, password_hash, role) VALUES (?, ?, ?, ?)')
+      .run(id, username, '!', role);
+    return id;
   }
 
   // Configuration
@@ -201,7 +476,69 @@ export class DatabaseService {
       paired_at: row.paired_at,
       last_seen: row.last_seen,
       is_active: row.is_active === 1,
-      metadata: JSON.parse(row.metadata || '{}')
+      metadata: JSON.parse(row.metadata || '{}'),
+      certificate_serial: row.certificate_serial ?? null,
+      certificate_expires_at: row.certificate_expires_at ?? null
+    };
+  }
+
+  private mapPairingSession(row: any): PairingSession {
+    return {
+      id: row.id,
+      pin: row.pin,
+      expires_at: row.expires_at,
+      created_at: row.created_at,
+      used: row.used === 1,
+      client_id: row.client_id ?? null,
+      approval_status: row.approval_status ?? null,
+      request: row.request ? JSON.parse(row.request) : null
+    };
+  }
+
+  private mapCachedEntity(row: any): any {
+    return {
+      entity_id: row.entity_id,
+      state: row.state,
+      attributes: JSON.parse(row.attributes),
+      last_changed: row.last_changed,
+      last_updated: row.last_updated,
+      cached_at: row.cached_at
+    };
+  }
+
+  private mapDashboard(row: any): Dashboard {
+    const config = JSON.parse(row.config || '{}');
+    return {
+      id: row.id,
+      name: row.name,
+      views: Array.isArray(config.views) ? config.views : [],
+      isDefault: config.isDefault === true,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      version: row.version
+    };
+  }
+
+  private mapArea(row: any): Area {
+    return {
+      id: row.id,
+      name: row.name,
+      entityIds: row.entity_ids ? JSON.parse(row.entity_ids) : [],
+      isEnabled: row.is_enabled === 1,
+      version: row.version
+    };
+  }
+
+  private mapAreaLink(row: any): AreaLink {
+    return {
+      areaId: row.area_id,
+      haAreaId: row.ha_area_id,
+      linked: row.linked === 1,
+      haName: row.ha_name,
+      haEntityIds: JSON.parse(row.ha_entity_ids || '[]'),
+      pendingDiff: row.pending_diff ? JSON.parse(row.pending_diff) as AreaLinkDiff : null,
+      diffDetectedAt: row.diff_detected_at
     };
   }
 
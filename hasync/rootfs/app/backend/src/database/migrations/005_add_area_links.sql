@@ -0,0 +1,24 @@
+-- Migration: 005_add_area_links
+-- Description: Track areas imported from Home Assistant and pending HA changes
+-- Created: 2026-10-19
+-- Author: System
+-- Dependencies: 002_add_areas
+
+-- Area links - HAsync areas imported from a Home Assistant area
+-- ha_name/ha_entity_ids are HA's side as of the last import or review;
+-- pending_diff holds unreviewed HA changes for linked areas
+CREATE TABLE IF NOT EXISTS area_links (
+    area_id TEXT PRIMARY KEY,
+    ha_area_id TEXT NOT NULL,
+    linked INTEGER NOT NULL DEFAULT 0,
+    ha_name TEXT NOT NULL,
+    ha_entity_ids TEXT NOT NULL DEFAULT '[]',
+    pending_diff TEXT,
+    diff_detected_at INTEGER,
+    created_at INTEGER DEFAULT (strftime('%s', 'now')),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (area_id) REFERENCES areas(id) ON DELETE CASCADE
+);
+
+-- Index for looking up links by HA area
+CREATE INDEX IF NOT EXISTS idx_area_links_ha_area ON area_links(ha_area_id);
@@ -0,0 +1,23 @@
+-- Migration: 006_add_config_versions
+-- Description: Version areas and dashboards for config_update events
+-- Created: 2026-10-19
+-- Author: System
+-- Dependencies: 002_add_areas, 003_add_auth_tables
+
+ALTER TABLE areas ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE dashboards ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+-- Bumped whenever the content changes
+CREATE TRIGGER IF NOT EXISTS bump_areas_version
+AFTER UPDATE OF name, entity_ids, is_enabled ON areas
+WHEN OLD.name IS NOT NEW.name OR OLD.entity_ids IS NOT NEW.entity_ids OR OLD.is_enabled IS NOT NEW.is_enabled
+BEGIN
+    UPDATE areas SET version = version + 1 WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS bump_dashboards_version
+AFTER UPDATE OF name, config ON dashboards
+WHEN OLD.name IS NOT NEW.name OR OLD.config IS NOT NEW.config
+BEGIN
+    UPDATE dashboards SET version = version + 1 WHERE id = NEW.id;
+END;
@@ -0,0 +1,8 @@
+-- Migration: 007_add_pairing_session_client
+-- Description: Remember which client completed a pairing session
+-- Created: 2026-10-19
+-- Author: System
+-- Dependencies: 001_initial_schema
+
+-- Set when the session is used, so its status can be looked up until it expires
+ALTER TABLE pairing_sessions ADD COLUMN client_id TEXT;
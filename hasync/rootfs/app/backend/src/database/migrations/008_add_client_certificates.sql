@@ -0,0 +1,16 @@
+-- Migration: 008_add_client_certificates
+-- Description: Serial and expiry of X.509 client certificates, and revoked serials
+-- Created: 2026-10-19
+-- Author: System
+-- Dependencies: 001_initial_schema
+
+ALTER TABLE clients ADD COLUMN certificate_serial TEXT;
+ALTER TABLE clients ADD COLUMN certificate_expires_at INTEGER;
+
+-- Denylist of client certificates, published as the CA's CRL
+CREATE TABLE IF NOT EXISTS revoked_certificates (
+    serial_number TEXT PRIMARY KEY,
+    client_id TEXT,
+    reason TEXT,
+    revoked_at INTEGER NOT NULL
+);
@@ -0,0 +1,10 @@
+-- Migration: 009_add_pairing_approval
+-- Description: Pairing requests awaiting admin approval
+-- Created: 2026-10-19
+-- Author: System
+-- Dependencies: 007_add_pairing_session_client
+
+-- pending_approval, approved, rejected or timed_out; NULL without approval mode
+ALTER TABLE pairing_sessions ADD COLUMN approval_status TEXT;
+-- JSON of the device's request: name, type, public key and IP address
+ALTER TABLE pairing_sessions ADD COLUMN request TEXT;
@@ -11,17 +11,30 @@ CREATE TABLE IF NOT EXISTS clients (
     last_seen INTEGER NOT NULL,
     is_active INTEGER NOT NULL DEFAULT 1,
     metadata TEXT DEFAULT '{}',
+    certificate_serial TEXT,
+    certificate_expires_at INTEGER,
     created_at INTEGER DEFAULT (strftime('%s', 'now')),
     updated_at INTEGER DEFAULT (strftime('%s', 'now'))
 );
 
+-- Revoked client certificates - denylist published as the CA's CRL
+CREATE TABLE IF NOT EXISTS revoked_certificates (
+    serial_number TEXT PRIMARY KEY,
+    client_id TEXT,
+    reason TEXT,
+    revoked_at INTEGER NOT NULL
+);
+
 -- Pairing sessions table - temporary PIN-based pairing
 CREATE TABLE IF NOT EXISTS pairing_sessions (
     id TEXT PRIMARY KEY,
     pin TEXT NOT NULL UNIQUE,
     expires_at INTEGER NOT NULL,
     created_at INTEGER NOT NULL,
-    used INTEGER NOT NULL DEFAULT 0
+    used INTEGER NOT NULL DEFAULT 0,
+    client_id TEXT,
+    approval_status TEXT,
+    request TEXT
 );
 
 -- Activity log table - audit trail for security
@@ -58,10 +71,27 @@ CREATE TABLE IF NOT EXISTS areas (
     name TEXT NOT NULL,
     entity_ids TEXT DEFAULT '[]',
     is_enabled INTEGER NOT NULL DEFAULT 1,
+    version INTEGER NOT NULL DEFAULT 1,
     created_at INTEGER DEFAULT (strftime('%s', 'now')),
     updated_at INTEGER DEFAULT (strftime('%s', 'now'))
 );
 
+-- Area links - HAsync areas imported from a Home Assistant area
+-- ha_name/ha_entity_ids are HA's side as of the last import or review;
+-- pending_diff holds unreviewed HA changes for linked areas
+CREATE TABLE IF NOT EXISTS area_links (
+    area_id TEXT PRIMARY KEY,
+    ha_area_id TEXT NOT NULL,
+    linked INTEGER NOT NULL DEFAULT 0,
+    ha_name TEXT NOT NULL,
+    ha_entity_ids TEXT NOT NULL DEFAULT '[]',
+    pending_diff TEXT,
+    diff_detected_at INTEGER,
+    created_at INTEGER DEFAULT (strftime('%s', 'now')),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (area_id) REFERENCES areas(id) ON DELETE CASCADE
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_clients_active ON clients(is_active);
 CREATE INDEX IF NOT EXISTS idx_clients_last_seen ON clients(last_seen);
@@ -71,6 +101,7 @@ CREATE INDEX IF NOT EXISTS idx_activity_client ON activity_log(client_id);
 CREATE INDEX IF NOT EXISTS idx_entity_cache_updated ON entity_cache(cached_at);
 CREATE INDEX IF NOT EXISTS idx_areas_name ON areas(name);
 CREATE INDEX IF NOT EXISTS idx_areas_enabled ON areas(is_enabled);
+CREATE INDEX IF NOT EXISTS idx_area_links_ha_area ON area_links(ha_area_id);
 
 -- Triggers for updated_at
 CREATE TRIGGER IF NOT EXISTS update_clients_timestamp
@@ -91,6 +122,14 @@ BEGIN
     UPDATE areas SET updated_at = strftime('%s', 'now') WHERE id = NEW.id;
 END;
 
+-- Versions for config_update events, bumped whenever the content changes
+CREATE TRIGGER IF NOT EXISTS bump_areas_version
+AFTER UPDATE OF name, entity_ids, is_enabled ON areas
+WHEN OLD.name IS NOT NEW.name OR OLD.entity_ids IS NOT NEW.entity_ids OR OLD.is_enabled IS NOT NEW.is_enabled
+BEGIN
+    UPDATE areas SET version = version + 1 WHERE id = NEW.id;
+END;
+
 -- User consent table - GDPR compliance for tracking user consent
 CREATE TABLE IF NOT EXISTS user_consent (
     user_id TEXT PRIMARY KEY,
@@ -119,11 +158,19 @@ CREATE TABLE IF NOT EXISTS dashboards (
     name TEXT NOT NULL,
     config TEXT DEFAULT '{}',
     created_by TEXT NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
     created_at INTEGER DEFAULT (strftime('%s', 'now')),
     updated_at INTEGER DEFAULT (strftime('%s', 'now')),
     FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE CASCADE
 );
 
+CREATE TRIGGER IF NOT EXISTS bump_dashboards_version
+AFTER UPDATE OF name, config ON dashboards
+WHEN OLD.name IS NOT NEW.name OR OLD.config IS NOT NEW.config
+BEGIN
+    UPDATE dashboards SET version = version + 1 WHERE id = NEW.id;
+END;
+
 -- Index for user consent
 CREATE INDEX IF NOT EXISTS idx_consent_user ON user_consent(user_id);
 
@@ -85,3 +85,19 @@ export class ServiceUnavailableError extends AppError {
     super(503, message);
   }
 }
+
+/**
+ * 502 Bad Gateway - Home Assistant rejected or never answered a request
+ * `code` is HA's error code (e.g. not_found, invalid_format) or a local one
+ * such as timeout, not_connected or connection_lost
+ */
+export class HomeAssistantError extends AppError {
+  constructor(
+    public code: string,
+    message: string,
+    statusCode: number = 502
+  ) {
+    super(statusCode, message);
+    Object.setPrototypeOf(this, HomeAssistantError.prototype);
+  }
+}
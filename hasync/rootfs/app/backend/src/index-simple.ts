@@ -11,7 +11,7 @@ import { createServer } from 'http';
 import { createServer as createHttpsServer } from 'https';
 import { Server as SocketIOServer } from 'socket.io';
 import Database from 'better-sqlite3';
-import { join } from 'path';
+import { join, dirname } from 'path';
 import { readFileSync, existsSync } from 'fs';
 import csrf from 'csurf';
 import cookieParser from 'cookie-parser';
@@ -22,15 +22,17 @@ import {
   getTLSOptionsFromEnv,
   loadTLSCertificates,
   createHTTPSOptions,
-  validateTLSConfig
+  validateTLSConfig,
+  getCertificateFingerprint
 } from './config/tls';
 import { httpsRedirect, securityHeaders } from './middleware/https-redirect';
 import { socketAuthMiddleware } from './middleware/socketAuth';
 import {
   validateSubscribe,
-  validateEntityUpdate,
-  validatePairing,
-  validateConfigUpdate,
+  validateSnapshotRequest,
+  validateThrottle,
+  validateResume,
+  validateServiceCall,
   validateRoomName,
 } from './utils/socketValidation';
 import {
@@ -50,11 +52,31 @@ import {
 import {
   NotFoundError,
   ValidationError,
-  ServiceUnavailableError
+  ServiceUnavailableError,
+  HomeAssistantError
 } from './errors/AppError';
 import { createLogger } from './utils/logger';
 import { createAdminRouter } from './routes/admin';
+import { createDashboardRouter } from './routes/dashboards';
 import { createRequestLoggerMiddleware } from './middleware/requestLogger';
+import { validatePairingRequest } from './middleware/validation';
+import { HomeAssistantService } from './services/homeassistant';
+import { HAInstanceManager, HAInstance, DEFAULT_INSTANCE_ID } from './services/ha-instances';
+import { getSupervisorOptionsFromEnv, getSupervisorInstanceConfig } from './config/supervisor';
+import { resolveHAToken, testHAConnection } from './services/ha-connection-test';
+import { ConfigSecretStore, maskSecret } from './services/config-secrets';
+import { AreaSyncService } from './services/area-sync';
+import { LovelaceSyncService } from './services/lovelace';
+import { EntityEventBridge } from './services/entity-events';
+import { callServiceAs, toServiceCallError, ServiceCallResponse } from './services/service-calls';
+import { ClientPresenceTracker, ClientConnection } from './services/client-presence';
+import { EntitySubscriptionRegistry } from './services/entity-subscriptions';
+import { PairingService } from './services/pairing';
+import { createPairingQRCode } from './services/pairing-qr';
+import { CertificateAuthority } from './services/certificate-authority';
+import { WebSocketServer, WS_PATH } from './websocket/server';
+import { DatabaseService } from './database';
+import { HAEntity, CachedHAEntity, HAInstanceConfig, ConfigUpdatePayload, PairingSession, PairingApprovalRequest, Client } from './types';
 
 // Initialize logger
 const logger = createLogger('Server');
@@ -91,11 +113,14 @@ const app = express();
 // Create HTTP server (for redirect) and HTTPS server based on TLS configuration
 let mainServer: any;
 let httpRedirectServer: any;
+// Put in pairing QR codes so devices can pin the server certificate
+let tlsFingerprint: string | undefined;
 
 if (tlsOptions.enabled) {
   const tlsConfig = loadTLSCertificates(tlsOptions);
   const httpsOptions = createHTTPSOptions(tlsConfig!);
   mainServer = createHttpsServer(httpsOptions, app);
+  tlsFingerprint = getCertificateFingerprint(tlsConfig!.cert);
 
   // Create HTTP redirect server if enabled
   if (tlsOptions.redirectHttp) {
@@ -378,6 +403,24 @@ try {
     }
   }
 
+  // Columns added after tables were first created; databases created before
+  // them get the columns here (the version bump triggers come with schema.sql)
+  [
+    ['areas', 'version', 'INTEGER NOT NULL DEFAULT 1'],
+    ['dashboards', 'version', 'INTEGER NOT NULL DEFAULT 1'],
+    ['pairing_sessions', 'client_id', 'TEXT'],
+    ['clients', 'certificate_serial', 'TEXT'],
+    ['clients', 'certificate_expires_at', 'INTEGER'],
+    ['pairing_sessions', 'approval_status', 'TEXT'],
+    ['pairing_sessions', 'request', 'TEXT']
+  ].forEach(([table, column, definition]) => {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all().map((info: any) => info.name);
+    if (columns.length > 0 && !columns.includes(column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      console.log(`✓ Added ${column} column to ${table}`);
+    }
+  });
+
   // Create initial backup on startup
   const backupDir = process.env.BACKUP_DIR || join(__dirname, '../../backups');
   try {
@@ -390,6 +433,34 @@ try {
   console.error('✗ Database error:', error);
 }
 
+// Shared data-access layer over the same connection
+const database = db ? new DatabaseService(db) : null;
+const areaSync = database ? new AreaSyncService(database) : null;
+const lovelaceSync = database ? new LovelaceSyncService(database) : null;
+
+// HA tokens in the configuration table are encrypted with a key derived from
+// a server secret stored next to the database
+const SERVER_SECRET_PATH = process.env.SERVER_SECRET_PATH || join(dirname(DATABASE_PATH), 'server_secret');
+let configSecrets: ConfigSecretStore | null = null;
+if (db) {
+  try {
+    configSecrets = new ConfigSecretStore(db, SERVER_SECRET_PATH);
+    const encrypted = configSecrets.encryptPlaintext();
+    if (encrypted > 0) {
+      console.log(`✓ Encrypted ${encrypted} plaintext configuration secret(s)`);
+    }
+  } catch (error: any) {
+    console.error('✗ Configuration secret store error:', error.message);
+  }
+}
+
+const requireConfigSecrets = (): ConfigSecretStore => {
+  if (!configSecrets) {
+    throw new ServiceUnavailableError('Configuration store', 'Server secret could not be loaded');
+  }
+  return configSecrets;
+};
+
 // Swagger API documentation
 try {
   const swaggerPath = join(__dirname, 'swagger.yaml');
@@ -413,40 +484,195 @@ app.get('/api/health', (_req, res) => {
     services: {
       api: 'running',
       database: db ? 'connected' : 'disconnected',
-      websocket: 'initializing'
+      websocket: wsServer ? 'running' : 'disabled',
+      homeAssistant: getDefaultHAService()?.isConnected() ? 'connected' : 'disconnected'
     },
+    homeAssistantInstances: haInstances.getStatus(),
+    // Entity updates sent, coalesced and dropped by throttling since startup
+    realtime: entityEvents.getThrottleCounters(),
     version: '1.0.0'
   };
   res.json(health);
 });
 
-// Basic pairing endpoint (renamed to match frontend) - auth limiter for security
-app.post('/api/pairing/create', authLimiter, csrfProtection, (_req, res) => {
-  const pin = Math.floor(100000 + Math.random() * 900000).toString();
-  const sessionId = `pairing_${Date.now()}`;
-  const expiresAt = new Date(Date.now() + 5 * 60 * 1000).toISOString();
+const requirePairing = (): PairingService => {
+  if (!pairingService) {
+    throw new ServiceUnavailableError('Database');
+  }
+  return pairingService;
+};
 
-  console.log(`Generated pairing session: ${sessionId}, PIN: ${pin}`);
+// Approval mode: a valid PIN only requests pairing, an admin has to approve it
+const pairingApproval = process.env.PAIRING_APPROVAL === 'true';
+if (pairingApproval) {
+  console.log('✓ Pairing requests require admin approval');
+}
 
-  res.json({
-    id: sessionId,
-    pin,
-    expiresAt,
-    status: 'pending'
+const getPairingStatus = (session: PairingSession) => {
+  if (session.used) {
+    return 'completed';
+  }
+  if (session.approval_status === 'rejected') {
+    return 'rejected';
+  }
+  if (session.approval_status === 'timed_out' || session.expires_at < Date.now()) {
+    return 'expired';
+  }
+  return session.approval_status === 'pending_approval' ? 'pending_approval' : 'pending';
+};
+
+const formatPairingRequest = (request: PairingApprovalRequest) => ({
+  deviceName: request.device_name,
+  deviceType: request.device_type,
+  ipAddress: request.ip_address,
+  requestedAt: new Date(request.requested_at).toISOString()
+});
+
+// Pairing session as returned to the admin UI
+const formatPairingSession = (session: PairingSession) => ({
+  id: session.id,
+  pin: session.pin,
+  clientId: session.client_id || undefined,
+  status: getPairingStatus(session),
+  request: session.request ? formatPairingRequest(session.request) : undefined,
+  createdAt: new Date(session.created_at).toISOString(),
+  expiresAt: new Date(session.expires_at).toISOString()
+});
+
+// Tell admins a session was used to create a client
+const notifyPairingCompleted = (sessionId: string, clientId: string) => {
+  const session = requirePairing().getPairingSession(sessionId)!;
+  const row = db.prepare('SELECT * FROM clients WHERE id = ?').get(clientId);
+  console.log(`✓ Pairing session ${session.id} completed by client ${clientId}`);
+
+  io.to('clients').emit('pairing_completed', {
+    session: formatPairingSession(session),
+    client: formatClient(row),
+    timestamp: new Date().toISOString()
   });
+};
+
+// The device's credentials, returned once it is paired
+const formatPairingCompletion = async (client: Client) => ({
+  client: formatClient(db.prepare('SELECT * FROM clients WHERE id = ?').get(client.id)),
+  certificate: client.certificate,
+  caCertificate: await certificateAuthority!.getCertificate()
 });
 
+// Unused sessions come with a QR code of the hasync:// pairing URI. The
+// server URL is PUBLIC_URL, or the address the admin UI reached us on
+const formatPendingPairingSession = async (req: any, session: PairingSession) => {
+  const formatted = formatPairingSession(session);
+  if (formatted.status !== 'pending') {
+    return formatted;
+  }
+
+  const qrCode = await createPairingQRCode({
+    serverUrl: process.env.PUBLIC_URL || `${req.protocol}://${req.get('host')}`,
+    sessionId: session.id,
+    pin: session.pin,
+    fingerprint: tlsFingerprint
+  });
+  return { ...formatted, qrCode };
+};
+
+// Start pairing - a PIN stored in pairing_sessions - auth limiter for security
+app.post('/api/pairing/create', authLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  const session = requirePairing().generatePairingPin();
+  console.log(`✓ Pairing session ${session.id} created`);
+
+  res.json(await formatPendingPairingSession(req, session));
+}));
+
+// Pairing session status, until it is cleaned up after expiring
+app.get('/api/pairing/:id', readLimiter, asyncHandler(async (req: any, res: any) => {
+  const session = requirePairing().getPairingSession(req.params.id);
+  if (!session) {
+    throw new NotFoundError('Pairing session');
+  }
+
+  res.json(await formatPendingPairingSession(req, session));
+}));
+
+// Complete pairing from the device with the session's PIN and its public key.
+// CSRF protection exempted (devices have no admin session); the auth limiter
+// guards against PIN guessing
+app.post('/api/pairing/:id/complete', authLimiter, validatePairingRequest, asyncHandler(async (req: any, res: any) => {
+  const { pin, device_name, device_type, public_key, csr } = req.body;
+  const request = { pin, device_name, device_type, public_key, csr };
+  const pairing = requirePairing();
+
+  if (pairingApproval) {
+    // The first request waits for an admin; repeating it returns the outcome
+    if (!pairing.getPairingSession(req.params.id)?.request) {
+      const session = await pairing.requestApproval(request, req.params.id, req.ip);
+      console.log(`→ Pairing session ${session.id} awaiting approval`);
+
+      io.to('clients').emit('pairing_request', {
+        session: formatPairingSession(session),
+        request: formatPairingRequest(session.request!),
+        timestamp: new Date().toISOString()
+      });
+      res.status(202).json({ status: 'pending_approval', expiresAt: new Date(session.expires_at).toISOString() });
+      return;
+    }
+
+    const client = await pairing.getApprovalResult(request, req.params.id);
+    if (!client) {
+      const session = pairing.getPairingSession(req.params.id)!;
+      res.status(202).json({ status: 'pending_approval', expiresAt: new Date(session.expires_at).toISOString() });
+      return;
+    }
+    res.status(201).json(await formatPairingCompletion(client));
+    return;
+  }
+
+  const client = await pairing.completePairing(request, req.params.id);
+  notifyPairingCompleted(req.params.id, client.id);
+
+  res.status(201).json(await formatPairingCompletion(client));
+}));
+
+// Approval mode: admins decide on pairing requests from devices
+app.post('/api/pairing/:id/approve', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  const client = await requirePairing().approvePairing(req.params.id);
+  console.log(`✓ Pairing session ${req.params.id} approved`);
+  notifyPairingCompleted(req.params.id, client.id);
+
+  const row = db.prepare('SELECT * FROM clients WHERE id = ?').get(client.id);
+  res.json({ session: formatPairingSession(requirePairing().getPairingSession(req.params.id)!), client: formatClient(row) });
+}));
+
+app.post('/api/pairing/:id/reject', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  requirePairing().rejectPairing(req.params.id);
+  console.log(`→ Pairing session ${req.params.id} rejected`);
+
+  res.json({ session: formatPairingSession(requirePairing().getPairingSession(req.params.id)!) });
+}));
+
+// Cancel a pairing session that was not used yet
+app.delete('/api/pairing/:id', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  if (!requirePairing().cancelPairing(req.params.id)) {
+    throw new NotFoundError('Pairing session');
+  }
+
+  res.json({ success: true });
+}));
+
+// Running as an add-on: the default instance goes through the Supervisor proxy
+const supervisor = getSupervisorOptionsFromEnv();
+if (supervisor) {
+  console.log(`✓ Supervisor detected - using Home Assistant at ${supervisor.coreUrl}`);
+}
+
 // Get HA config from database
 const getHAConfig = (): { url?: string; token?: string } => {
   try {
-    if (db) {
-      const config: any = db.prepare('SELECT value FROM configuration WHERE key = ?').get('ha_config');
-
-      if (config && config.value) {
-        const parsed = JSON.parse(config.value);
-        console.log('✓ HA config loaded from database:', { url: parsed.url, hasToken: !!parsed.token });
-        return parsed;
-      }
+    const value = configSecrets?.get('ha_config');
+    if (value) {
+      const parsed = JSON.parse(value);
+      console.log('✓ HA config loaded from database:', { url: parsed.url, hasToken: !!parsed.token });
+      return parsed;
     }
   } catch (error: any) {
     console.error('✗ Error reading HA config from database:', error.message);
@@ -467,37 +693,228 @@ const getHAConfig = (): { url?: string; token?: string } => {
   return fallback;
 };
 
-// Get entities - fetch from Home Assistant (NO MOCK DATA)
-app.get('/api/entities', readLimiter, asyncHandler(async (_req: any, res: any) => {
-  const haConfig = getHAConfig();
-  const haUrl = haConfig.url;
-  const haToken = haConfig.token;
+// Named Home Assistant instances besides the default one in ha_config
+const getAdditionalHAInstances = (): HAInstanceConfig[] => {
+  try {
+    const value = configSecrets?.get('ha_instances');
+    return value ? JSON.parse(value) : [];
+  } catch (error: any) {
+    console.error('✗ Error reading HA instances from database:', error.message);
+    return [];
+  }
+};
+
+const saveAdditionalHAInstances = (instances: HAInstanceConfig[]): void => {
+  requireConfigSecrets().set('ha_instances', JSON.stringify(instances));
+};
+
+const getHAInstanceConfigs = (): HAInstanceConfig[] => {
+  const configs: HAInstanceConfig[] = [];
+  const haConfig: { url?: string; token?: string; name?: string } = supervisor ? {} : getHAConfig();
+  if (supervisor) {
+    configs.push(getSupervisorInstanceConfig(supervisor, DEFAULT_INSTANCE_ID));
+  } else if (haConfig.url && haConfig.token) {
+    configs.push({
+      id: DEFAULT_INSTANCE_ID,
+      name: haConfig.name || 'Home Assistant',
+      url: haConfig.url,
+      token: haConfig.token
+    });
+  }
+  return configs.concat(getAdditionalHAInstances());
+};
+
+// HA state changes from every instance go to the Socket.IO entities room,
+// filtered by what each socket subscribed to
+const socketSubscriptions = new EntitySubscriptionRegistry(areaId => database?.getArea(areaId)?.entityIds || null);
+const entityEvents = new EntityEventBridge(io, socketSubscriptions);
+
+// Area and dashboard writes go to the matching room with the resource's new
+// version, so clients can drop stale copies without polling
+const notifyConfigUpdate = (
+  resource: ConfigUpdatePayload['resource'],
+  id: string,
+  action: ConfigUpdatePayload['action']
+): void => {
+  const table = resource === 'area' ? 'areas' : 'dashboards';
+  const row: any = action === 'deleted' ? undefined : db?.prepare(`SELECT version FROM ${table} WHERE id = ?`).get(id);
+
+  const update: ConfigUpdatePayload = {
+    resource,
+    id,
+    action,
+    version: row ? row.version : null,
+    timestamp: new Date().toISOString()
+  };
+  io.to(table).emit('config_update', update);
+  wsServer?.notifyConfigUpdate(update);
+};
 
-  if (!haUrl || !haToken) {
+// Area subscriptions follow the area's entities; subscribers are told the new set
+const notifyAreaChanged = (areaId: string, action: ConfigUpdatePayload['action'] = 'updated'): void => {
+  socketSubscriptions.refreshArea(areaId).forEach(socketId => {
+    io.to(socketId).emit('subscription_updated', {
+      type: 'entities',
+      subscription: socketSubscriptions.get(socketId),
+      timestamp: new Date().toISOString()
+    });
+  });
+  wsServer?.refreshArea(areaId);
+  notifyConfigUpdate('area', areaId, action);
+};
+
+// Paired clients connected over the realtime servers; admins in the clients
+// room see them come and go
+const clientPresence = new ClientPresenceTracker(clientId => {
+  db?.prepare('UPDATE clients SET last_seen = ? WHERE id = ?').run(Date.now(), clientId);
+});
+
+// Client as returned by /api/clients, with presence instead of key material
+// Area and dashboard assignments are kept in the client's metadata column
+const getClientMetadata = (row: any): Record<string, any> => {
+  try {
+    return JSON.parse(row.metadata || '{}') || {};
+  } catch {
+    return {};
+  }
+};
+
+const formatClient = (row: any) => {
+  const presence = clientPresence.getPresence(row.id);
+  const metadata = getClientMetadata(row);
+  return {
+    id: row.id,
+    name: row.name,
+    deviceType: row.device_type,
+    status: presence.status,
+    assignedAreas: Array.isArray(metadata.assigned_areas) ? metadata.assigned_areas : [],
+    assignedDashboard: metadata.assigned_dashboard || undefined,
+    pairedAt: new Date(row.paired_at).toISOString(),
+    lastSeen: new Date(row.last_seen).toISOString(),
+    certificateExpiresAt: row.certificate_expires_at ? new Date(row.certificate_expires_at).toISOString() : undefined,
+    ipAddress: presence.connections[0]?.ipAddress,
+    connections: presence.connections
+  };
+};
+
+const notifyClientPresence = (event: 'client_connected' | 'client_disconnected') =>
+  (clientId: string, connection: ClientConnection) => {
+    const row = db?.prepare('SELECT * FROM clients WHERE id = ?').get(clientId);
+    if (!row) {
+      return;
+    }
+    console.log(`${event === 'client_connected' ? '✓' : '→'} Client ${clientId} ${event === 'client_connected' ? 'online' : 'offline'} (${connection.transport})`);
+    io.to('clients').emit(event, { client: formatClient(row), timestamp: new Date().toISOString() });
+  };
+clientPresence.on('client_connected', notifyClientPresence('client_connected'));
+clientPresence.on('client_disconnected', notifyClientPresence('client_disconnected'));
+
+// Client certificates are signed by HAsync's own CA, created on first boot
+// and kept with the encrypted configuration
+const certificateAuthority = configSecrets ? new CertificateAuthority(configSecrets) : null;
+certificateAuthority?.initialize()
+  .then(created => console.log(created ? '✓ Client certificate authority created' : '✓ Client certificate authority loaded'))
+  .catch(error => console.error('✗ Client certificate authority error:', error.message));
+
+// Paired devices connect to /ws on the same server as Socket.IO and are
+// served from the default Home Assistant instance
+const pairingService = database && certificateAuthority ? new PairingService(database, certificateAuthority) : null;
+// Devices sign an auth challenge; the old bearer certificate only when enabled
+const legacyCertificateAuth = process.env.LEGACY_CERTIFICATE_AUTH === 'true';
+if (legacyCertificateAuth) {
+  console.warn('⚠ Legacy certificate authentication is enabled for /ws');
+}
+const wsServer = pairingService
+  ? new WebSocketServer(mainServer, pairingService, null, {
+    getAreaEntityIds: areaId => database?.getArea(areaId)?.entityIds || null,
+    allowCertificateAuth: legacyCertificateAuth,
+    presence: clientPresence
+  })
+  : null;
+
+// One Home Assistant connection per instance, shared by the whole server.
+// Area import and Lovelace sync work against the default instance.
+const haInstances = new HAInstanceManager(database, {
+  onConnect: (instance) => {
+    entityEvents.attach(instance.config.id, instance.service);
+    if (instance.config.id === DEFAULT_INSTANCE_ID) {
+      areaSync?.attach(instance.service);
+      wsServer?.attach(instance.service);
+    }
+  },
+  onDisconnect: (instance) => {
+    entityEvents.detach(instance.config.id);
+    if (instance.config.id === DEFAULT_INSTANCE_ID) {
+      areaSync?.detach();
+      wsServer?.detach();
+    }
+  }
+});
+
+const getDefaultHAService = (): HomeAssistantService | null => haInstances.getDefault()?.service || null;
+
+// (Re)connect instances whose configuration changed
+const connectHomeAssistant = (): void => {
+  haInstances.sync(getHAInstanceConfigs());
+};
+
+connectHomeAssistant();
+
+// Current states of one instance - from its in-memory mirror, REST when the socket is down
+const getInstanceStates = async ({ config, service }: HAInstance): Promise<HAEntity[]> => {
+  if (service.hasStateMirror()) {
+    return service.getMirroredStates();
+  }
+
+  logger.info(`State mirror for "${config.name}" unavailable, fetching entities over REST`);
+  try {
+    return await service.fetchStates();
+  } catch (error: any) {
+    throw new ServiceUnavailableError(`Home Assistant API (${config.name})`, error.message);
+  }
+};
+
+// Current states of every instance with namespaced entity IDs. An unreachable
+// instance contributes its last cached states flagged stale; it is left out
+// only when nothing is cached, and the request fails only if no instance
+// had anything to return.
+const getEntityStatesOrCached = async (): Promise<Array<HAEntity | CachedHAEntity>> => {
+  const instances = haInstances.list();
+  if (instances.length === 0) {
     throw new ServiceUnavailableError(
       'Home Assistant',
       'Please configure Home Assistant URL and token in Settings'
     );
   }
 
-  // Fetch real entities from Home Assistant
-  logger.info(`Fetching entities from ${haUrl}/api/states`);
-  const response = await fetch(`${haUrl}/api/states`, {
-    headers: {
-      'Authorization': `Bearer ${haToken}`,
-      'Content-Type': 'application/json'
+  const errors: Error[] = [];
+  const results = await Promise.all(instances.map(async (instance) => {
+    const { id, name } = instance.config;
+    try {
+      const states = await getInstanceStates(instance);
+      return states.map(state => HAInstanceManager.toGlobalState(id, state));
+    } catch (error: any) {
+      const cached = instance.cache?.getCachedStates() || [];
+      if (cached.length === 0) {
+        errors.push(error);
+        return [];
+      }
+
+      logger.warn(`Home Assistant "${name}" unreachable, serving ${cached.length} cached entities`);
+      return cached.map(state => HAInstanceManager.toGlobalState(id, state));
     }
-  });
+  }));
 
-  if (!response.ok) {
-    throw new ServiceUnavailableError(
-      'Home Assistant API',
-      `${response.status} ${response.statusText}`
-    );
+  if (errors.length === instances.length) {
+    throw errors[0];
   }
+  return ([] as Array<HAEntity | CachedHAEntity>).concat(...results);
+};
 
-  const entities = await response.json() as any[];
-  logger.info(`✓ Fetched ${entities.length} entities from Home Assistant`);
+// Get entities - served from the Home Assistant state mirror (NO MOCK DATA)
+app.get('/api/entities', readLimiter, asyncHandler(async (_req: any, res: any) => {
+  const entities = await getEntityStatesOrCached();
+  logger.info(`✓ Returning ${entities.length} entities`);
 
   res.json(entities);
 }));
@@ -520,7 +937,8 @@ app.get('/api/areas', readLimiter, (req, res) => {
       id: area.id,
       name: area.name,
       entityIds: area.entity_ids ? JSON.parse(area.entity_ids) : [],
-      isEnabled: area.is_enabled === 1
+      isEnabled: area.is_enabled === 1,
+      version: area.version
     }));
     res.json(result);
   } catch (error) {
@@ -564,12 +982,14 @@ app.post('/api/areas', writeLimiter, csrfProtection, (req, res) => {
     // ✅ SECURE: Using prepared statement
     db.prepare('INSERT INTO areas (id, name, entity_ids, is_enabled) VALUES (?, ?, ?, ?)')
       .run(id, sanitizedName, entity_ids_json, is_enabled);
+    notifyAreaChanged(id, 'created');
 
     res.json({
       id,
       name: sanitizedName,
       entityIds: entityIds || [],
-      isEnabled: isEnabled
+      isEnabled: isEnabled,
+      version: 1
     });
   } catch (error) {
     console.error('Error creating area:', error);
@@ -609,12 +1029,15 @@ app.put('/api/areas/:id', writeLimiter, csrfProtection, asyncHandler(async (req:
   // ✅ SECURE: Using prepared statement
   db.prepare('UPDATE areas SET name = ?, entity_ids = ?, is_enabled = ? WHERE id = ?')
     .run(sanitizedName, entity_ids_json, is_enabled, id);
+  notifyAreaChanged(id);
 
+  const { version } = db.prepare('SELECT version FROM areas WHERE id = ?').get(id) as any;
   res.json({
     id,
     name: sanitizedName,
     entityIds: entityIds || [],
-    isEnabled: is_enabled === 1
+    isEnabled: is_enabled === 1,
+    version
   });
 }));
 
@@ -687,6 +1110,7 @@ app.patch('/api/areas/:id', writeLimiter, csrfProtection, (req, res) => {
     // ✅ SECURE: Using prepared statement with parameterized values
     const query = `UPDATE areas SET ${updateFields.join(', ')} WHERE id = ?`;
     db.prepare(query).run(...updateValues);
+    notifyAreaChanged(id);
 
     // Fetch and return updated area
     const updated: any = db.prepare('SELECT * FROM areas WHERE id = ?').get(id);
@@ -696,7 +1120,8 @@ app.patch('/api/areas/:id', writeLimiter, csrfProtection, (req, res) => {
       id: updated.id,
       name: updated.name,
       entityIds: updated.entity_ids ? JSON.parse(updated.entity_ids) : [],
-      isEnabled: updated.is_enabled === 1
+      isEnabled: updated.is_enabled === 1,
+      version: updated.version
     });
   } catch (error) {
     console.error('Error patching area:', error);
@@ -723,13 +1148,15 @@ app.patch('/api/areas/:id/toggle', writeLimiter, csrfProtection, (req, res) => {
 
     const is_enabled = enabled ? 1 : 0;
     db.prepare('UPDATE areas SET is_enabled = ? WHERE id = ?').run(is_enabled, id);
+    notifyAreaChanged(id);
 
     const updated: any = db.prepare('SELECT * FROM areas WHERE id = ?').get(id);
     res.json({
       id: updated.id,
       name: updated.name,
       entityIds: updated.entity_ids ? JSON.parse(updated.entity_ids) : [],
-      isEnabled: updated.is_enabled === 1
+      isEnabled: updated.is_enabled === 1,
+      version: updated.version
     });
   } catch (error) {
     console.error('Error toggling area:', error);
@@ -785,6 +1212,7 @@ app.patch('/api/areas/:id/reorder', writeLimiter, csrfProtection, async (req, re
     const entity_ids_json = JSON.stringify(entityIds);
     db.prepare('UPDATE areas SET entity_ids = ? WHERE id = ?')
       .run(entity_ids_json, id);
+    notifyAreaChanged(id);
 
     // Return updated area
     const updatedArea: any = db.prepare('SELECT * FROM areas WHERE id = ?').get(id);
@@ -793,7 +1221,8 @@ app.patch('/api/areas/:id/reorder', writeLimiter, csrfProtection, async (req, re
       id: updatedArea.id,
       name: updatedArea.name,
       entityIds: JSON.parse(updatedArea.entity_ids),
-      isEnabled: updatedArea.is_enabled === 1
+      isEnabled: updatedArea.is_enabled === 1,
+      version: updatedArea.version
     });
   } catch (error: any) {
     console.error('Error reordering entities:', error);
@@ -804,6 +1233,62 @@ app.patch('/api/areas/:id/reorder', writeLimiter, csrfProtection, async (req, re
   }
 });
 
+const requireAreaSync = (): AreaSyncService => {
+  if (!areaSync) {
+    throw new ServiceUnavailableError('Database');
+  }
+  return areaSync;
+};
+
+// Import Home Assistant areas (all, or the given haAreaIds) as HAsync areas
+app.post('/api/areas/import', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  const { haAreaIds, linked = false } = req.body;
+
+  if (haAreaIds !== undefined && (!Array.isArray(haAreaIds) || !haAreaIds.every((id: any) => typeof id === 'string'))) {
+    throw new ValidationError('haAreaIds must be an array of Home Assistant area IDs');
+  }
+
+  if (!InputSanitizer.validateBoolean(linked)) {
+    throw new ValidationError('linked must be a boolean');
+  }
+
+  const result = await requireAreaSync().importAreas({ haAreaIds, linked });
+  result.imported.forEach(area => notifyAreaChanged(area.id, 'created'));
+  logger.info(`✓ Imported ${result.imported.length} areas from Home Assistant (${result.skipped.length} skipped)`);
+
+  res.json(result);
+}));
+
+// List areas imported from Home Assistant, with any pending HA changes
+app.get('/api/areas/links', readLimiter, asyncHandler(async (_req: any, res: any) => {
+  res.json(requireAreaSync().getLinks());
+}));
+
+// Turn linked mode on or off for an imported area
+app.patch('/api/areas/:id/link', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  const { linked } = req.body;
+
+  if (!InputSanitizer.validateBoolean(linked)) {
+    throw new ValidationError('linked must be a boolean');
+  }
+
+  res.json(await requireAreaSync().setLinked(req.params.id, linked));
+}));
+
+// Apply pending Home Assistant changes to a linked area
+app.post('/api/areas/:id/link/accept', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  const area = requireAreaSync().acceptChanges(req.params.id);
+  notifyAreaChanged(area.id);
+  console.log(`✓ Area ${area.id} updated from Home Assistant`);
+
+  res.json(area);
+}));
+
+// Dismiss pending Home Assistant changes, keeping the area as it is
+app.post('/api/areas/:id/link/reject', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  res.json(requireAreaSync().rejectChanges(req.params.id));
+}));
+
 // Get entities in an area with details from Home Assistant
 app.get('/api/areas/:id/entities', readLimiter, async (req, res) => {
   try {
@@ -826,35 +1311,12 @@ app.get('/api/areas/:id/entities', readLimiter, async (req, res) => {
       return res.json([]);
     }
 
-    // Get HA config
-    const haConfig = getHAConfig();
-    const haUrl = haConfig.url;
-    const haToken = haConfig.token;
-
-    if (!haUrl || !haToken) {
-      return res.status(503).json({
-        error: 'Home Assistant not configured',
-        message: 'Please configure Home Assistant URL and token in Settings'
-      });
-    }
-
-    // Fetch all entities from Home Assistant
-    const response = await fetch(`${haUrl}/api/states`, {
-      headers: {
-        'Authorization': `Bearer ${haToken}`,
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`HA API error: ${response.status} ${response.statusText}`);
-    }
-
-    const allEntities = await response.json() as any[];
+    const allEntities = await getEntityStatesOrCached();
+    const entitiesById = new Map(allEntities.map((entity) => [entity.entity_id, entity]));
 
     // Filter entities to only those in this area and maintain order
     const orderedEntities = entityIds
-      .map((entityId: string) => allEntities.find((entity: any) => entity.entity_id === entityId))
+      .map((entityId: string) => entitiesById.get(entityId))
       .filter((entity: any) => entity !== undefined);
 
     res.setHeader('Content-Type', 'application/json');
@@ -880,6 +1342,7 @@ app.delete('/api/areas/:id', writeLimiter, csrfProtection, (req, res) => {
     }
 
     db.prepare('DELETE FROM areas WHERE id = ?').run(id);
+    notifyAreaChanged(id, 'deleted');
     res.json({ success: true });
   } catch (error) {
     console.error('Error deleting area:', error);
@@ -887,13 +1350,41 @@ app.delete('/api/areas/:id', writeLimiter, csrfProtection, (req, res) => {
   }
 });
 
-// Get dashboards
-app.get('/api/dashboards', readLimiter, (_req, res) => {
-  res.json([
-    { dashboard_id: 'default', name: 'Default Dashboard' },
-    { dashboard_id: 'mobile', name: 'Mobile Dashboard' }
-  ]);
-});
+// Dashboards - CRUD backed by the dashboards table, POST /sync imports Lovelace
+if (database) {
+  // The admin signs in with environment credentials, so dashboards are
+  // owned by a users row created for that username on first write
+  const getDashboardOwnerId = () => database.ensureUser(process.env.ADMIN_USERNAME || 'admin', 'admin');
+
+  app.use('/api/dashboards', createDashboardRouter(database, {
+    readMiddleware: [readLimiter],
+    writeMiddleware: [writeLimiter, csrfProtection],
+    getOwnerId: getDashboardOwnerId,
+    onChange: (dashboardId, action) => notifyConfigUpdate('dashboard', dashboardId, action),
+    sync: async () => {
+      const haService = getDefaultHAService();
+      if (!haService) {
+        throw new ServiceUnavailableError(
+          'Home Assistant',
+          'Please configure Home Assistant URL and token in Settings'
+        );
+      }
+
+      const versions = new Map(database.getAllDashboards().map(dashboard => [dashboard.id, dashboard.version]));
+      const result = await lovelaceSync!.sync(haService, getDashboardOwnerId());
+      database.getAllDashboards().forEach(dashboard => {
+        if (!versions.has(dashboard.id)) {
+          notifyConfigUpdate('dashboard', dashboard.id, 'created');
+        } else if (versions.get(dashboard.id) !== dashboard.version) {
+          notifyConfigUpdate('dashboard', dashboard.id, 'updated');
+        }
+        versions.delete(dashboard.id);
+      });
+      versions.forEach((_version, dashboardId) => notifyConfigUpdate('dashboard', dashboardId, 'deleted'));
+      logger.info(`✓ Synced ${result.synced.length} Lovelace dashboards (${result.skipped.length} skipped)`);
+    }
+  }));
+}
 
 // Login endpoint - Fixed admin credentials from env - strict rate limiting for brute force protection
 // Login endpoint - CSRF protection exempted (users need to login first to get CSRF token)
@@ -934,33 +1425,128 @@ app.post('/api/auth/login', authLimiter, (req, res) => {
 });
 
 // Save HA config endpoint
-app.post('/api/config/ha', writeLimiter, csrfProtection, (req, res) => {
-  try {
-    const { url, token } = req.body;
-    const config = JSON.stringify({ url, token });
+// Credentials are tested first; `force: true` saves them even if the test fails
+app.post('/api/config/ha', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  if (supervisor) {
+    return res.status(409).json({ error: 'Home Assistant connection is managed by the Supervisor' });
+  }
 
-    db.prepare('INSERT OR REPLACE INTO configuration (key, value) VALUES (?, ?)')
-      .run('ha_config', config);
+  // An omitted token keeps the saved one, as long as the URL is unchanged
+  const { url, force } = req.body;
+  const token = resolveHAToken(url, req.body.token, getHAConfig());
+  if (typeof url !== 'string' || typeof token !== 'string' || !url || !token) {
+    throw new ValidationError('URL and access token are required');
+  }
 
-    console.log(`✓ HA config saved: ${url}`);
-    res.json({ success: true, message: 'HA configuration saved' });
-  } catch (error) {
-    console.error('Error saving HA config:', error);
-    res.status(500).json({ error: 'Failed to save configuration' });
+  const test = force === true ? null : await testHAConnection(url, token);
+  if (test && !test.success) {
+    throw new HomeAssistantError(test.category!, `Connection test failed: ${test.message}`, 422);
+  }
+
+  requireConfigSecrets().set('ha_config', JSON.stringify({ url, token }));
+
+  console.log(`✓ HA config saved: ${url}${test ? ` (Home Assistant ${test.version})` : ' (untested)'}`);
+
+  // Reconnect the shared Home Assistant connection with the new credentials
+  connectHomeAssistant();
+
+  res.json({ success: true, message: 'HA configuration saved', test });
+}));
+
+// Test a URL and token from the server without saving them; in add-on mode
+// the Supervisor connection is tested instead
+app.post('/api/config/ha/test', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  if (supervisor) {
+    return res.json(await testHAConnection(supervisor.coreUrl, supervisor.token));
+  }
+
+  const { url } = req.body;
+  const token = resolveHAToken(url, req.body.token, getHAConfig());
+  if (typeof url !== 'string' || typeof token !== 'string' || !url || !token) {
+    throw new ValidationError('URL and access token are required');
   }
-});
 
-// Get HA config endpoint
+  res.json(await testHAConnection(url, token));
+}));
+
+// Get HA config endpoint - the token itself is never returned
 app.get('/api/config/ha', readLimiter, (_req, res) => {
+  // No token to set up in add-on mode
+  if (supervisor) {
+    return res.json({ mode: 'addon', url: supervisor.coreUrl, hasToken: true, maskedToken: null });
+  }
+
   try {
     const haConfig = getHAConfig();
-    res.json(haConfig);
+    res.json({
+      url: haConfig.url,
+      mode: 'standalone',
+      hasToken: !!haConfig.token,
+      maskedToken: maskSecret(haConfig.token)
+    });
   } catch (error) {
     console.error('Error reading HA config:', error);
     res.status(500).json({ error: 'Failed to read configuration' });
   }
 });
 
+// List Home Assistant instances with their connection status (tokens are never returned)
+app.get('/api/config/ha/instances', readLimiter, (_req, res) => {
+  const statusById = new Map(haInstances.getStatus().map(status => [status.id, status]));
+
+  res.json(getHAInstanceConfigs().map(({ id, name, url }) => ({
+    id,
+    name,
+    url,
+    status: statusById.get(id)?.status || 'disconnected',
+    stateMirror: statusById.get(id)?.stateMirror || false,
+    entityCount: statusById.get(id)?.entityCount || 0
+  })));
+});
+
+// Add or replace a named Home Assistant instance
+app.put('/api/config/ha/instances/:id', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  const { id } = req.params;
+  const { name, url, token } = req.body;
+
+  if (!HAInstanceManager.isValidInstanceId(id) || id === DEFAULT_INSTANCE_ID) {
+    throw new ValidationError('Instance ID must be 1-32 lowercase letters, digits or underscores, and not "default"');
+  }
+
+  if (typeof name !== 'string' || InputSanitizer.sanitizeString(name, 100).length === 0) {
+    throw new ValidationError('Instance name is required');
+  }
+
+  if (typeof url !== 'string' || !/^https?:\/\/[^\s]+$/.test(url)) {
+    throw new ValidationError('URL must start with http:// or https://');
+  }
+
+  if (typeof token !== 'string' || token.length === 0) {
+    throw new ValidationError('Access token is required');
+  }
+
+  const instance: HAInstanceConfig = { id, name: InputSanitizer.sanitizeString(name, 100), url, token };
+  saveAdditionalHAInstances([...getAdditionalHAInstances().filter(existing => existing.id !== id), instance]);
+  console.log(`✓ HA instance "${instance.name}" saved: ${url}`);
+
+  connectHomeAssistant();
+
+  res.json({ id, name: instance.name, url });
+}));
+
+// Remove a named Home Assistant instance
+app.delete('/api/config/ha/instances/:id', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  const instances = getAdditionalHAInstances();
+  if (!instances.some(instance => instance.id === req.params.id)) {
+    throw new NotFoundError('Home Assistant instance');
+  }
+
+  saveAdditionalHAInstances(instances.filter(instance => instance.id !== req.params.id));
+  connectHomeAssistant();
+
+  res.json({ success: true });
+}));
+
 // Verify token - auth limiter to prevent token enumeration
 app.get('/api/auth/verify', authLimiter, (req, res) => {
   const token = req.headers.authorization?.replace('Bearer ', '');
@@ -1018,7 +1604,7 @@ app.get('/api/clients', readLimiter, (_req, res) => {
     if (db) {
       // ✅ SECURE: Using prepared statement
       const clients = db.prepare('SELECT * FROM clients WHERE is_active = ?').all(1);
-      res.json(clients || []);
+      res.json(clients.map(formatClient));
     } else {
       res.json([]);
     }
@@ -1028,8 +1614,76 @@ app.get('/api/clients', readLimiter, (_req, res) => {
   }
 });
 
+// Update a client - name, device type, assigned areas and dashboard
+app.put('/api/clients/:id', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  const { name, deviceType, assignedAreas, assignedDashboard } = req.body;
+
+  if (name !== undefined && !InputSanitizer.validateAreaName(name)) {
+    throw new ValidationError('Name must be 1-100 characters, alphanumeric with spaces and common punctuation');
+  }
+  if (deviceType !== undefined && !['phone', 'tablet', 'desktop'].includes(deviceType)) {
+    throw new ValidationError('deviceType must be phone, tablet or desktop');
+  }
+  if (assignedAreas !== undefined
+    && (!Array.isArray(assignedAreas) || !assignedAreas.every((id: any) => InputSanitizer.validateAreaId(id)))) {
+    throw new ValidationError('assignedAreas must be an array of area IDs');
+  }
+  if (assignedDashboard && !database?.getDashboard(assignedDashboard)) {
+    throw new ValidationError('assignedDashboard must be an existing dashboard');
+  }
+
+  const client = requirePairing().updateClient(req.params.id, {
+    name: name !== undefined ? InputSanitizer.sanitizeString(name, 100) : undefined,
+    device_type: deviceType,
+    assigned_areas: assignedAreas,
+    // Empty or null clears the dashboard
+    assigned_dashboard: assignedDashboard === undefined ? undefined : assignedDashboard || null
+  });
+  if (!client) {
+    throw new NotFoundError('Client');
+  }
+  console.log(`✓ Client ${client.id} updated`);
+
+  res.json(formatClient(db!.prepare('SELECT * FROM clients WHERE id = ?').get(client.id)));
+}));
+
+// Revoke a client - deactivated, certificate on the CRL, disconnected
+app.post('/api/clients/:id/revoke', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  if (!requirePairing().revokeClient(req.params.id)) {
+    throw new NotFoundError('Client');
+  }
+  wsServer?.disconnectClient(req.params.id);
+  console.log(`✓ Client ${req.params.id} revoked`);
+
+  res.json({ success: true });
+}));
+
+// Delete a client; its certificate is revoked as well
+app.delete('/api/clients/:id', writeLimiter, csrfProtection, asyncHandler(async (req: any, res: any) => {
+  if (!requirePairing().deleteClient(req.params.id)) {
+    throw new NotFoundError('Client');
+  }
+  wsServer?.disconnectClient(req.params.id);
+  console.log(`✓ Client ${req.params.id} deleted`);
+
+  res.json({ success: true });
+}));
+
+// Client CA certificate and CRL, for verifying client certificates
+app.get('/api/ca/certificate', readLimiter, asyncHandler(async (_req: any, res: any) => {
+  if (!certificateAuthority) {
+    throw new ServiceUnavailableError('Certificate authority');
+  }
+
+  res.type('application/x-pem-file').send(await certificateAuthority.getCertificate());
+}));
+
+app.get('/api/ca/crl', readLimiter, asyncHandler(async (_req: any, res: any) => {
+  res.type('application/x-pem-file').send(await requirePairing().getCertificateRevocationList());
+}));
+
 // Admin routes - backup, restore, security management
-app.use('/api/admin', createAdminRouter(db));
+app.use('/api/admin', createAdminRouter(db, { configSecrets }));
 
 // 404 handler (must be before error handler)
 app.use(notFoundHandler);
@@ -1328,9 +1982,24 @@ app.get('/api/privacy-policy', readLimiter, (req, res) => {
       socket.join(roomName);
       console.log(`[WebSocket] ${user?.username} subscribed to: ${roomName}`);
 
+      // Entity updates are only sent for the IDs, globs and areas asked for
+      // (everything if none are given)
+      const subscription = validated.type === 'entities'
+        ? socketSubscriptions.subscribe(socket.id, {
+            entityIds: validated.entity_ids,
+            patterns: validated.patterns,
+            areaIds: validated.area_ids,
+          })
+        : undefined;
+      if (subscription && validated.delta !== undefined) {
+        entityEvents.setDeltaMode(socket.id, validated.delta);
+      }
+
       socket.emit('subscribed', {
         type: validated.type,
         status: 'ok',
+        // Sequence and epoch to resume from after a reconnect
+        ...(subscription && { subscription, replay: entityEvents.getReplayPosition() }),
         timestamp: new Date().toISOString(),
       });
     } catch (error: any) {
@@ -1349,12 +2018,28 @@ app.get('/api/privacy-policy', readLimiter, (req, res) => {
       const validated = validateSubscribe(data);
       const roomName = validateRoomName(validated.type);
 
-      socket.leave(roomName);
+      // Without filters the whole subscription goes, otherwise just the
+      // given entities, globs and areas
+      const subscription = validated.type === 'entities'
+        ? socketSubscriptions.unsubscribe(socket.id, {
+            entityIds: validated.entity_ids,
+            patterns: validated.patterns,
+            areaIds: validated.area_ids,
+          })
+        : null;
+
+      if (!subscription) {
+        socket.leave(roomName);
+        if (validated.type === 'entities') {
+          entityEvents.forget(socket.id);
+        }
+      }
       console.log(`[WebSocket] ${user?.username} unsubscribed from: ${roomName}`);
 
       socket.emit('unsubscribed', {
         type: validated.type,
         status: 'ok',
+        ...(subscription && { subscription }),
         timestamp: new Date().toISOString(),
       });
     } catch (error: any) {
@@ -1367,88 +2052,108 @@ app.get('/api/privacy-policy', readLimiter, (req, res) => {
     }
   });
 
-  // Entity update from client (if needed)
-  socket.on('entity_update', (data) => {
+  // Full entity states for a delta-mode client that detected a version gap
+  socket.on('request_snapshot', (data) => {
     try {
-      const validated = validateEntityUpdate(data);
+      const validated = validateSnapshotRequest(data);
 
-      // Broadcast to all subscribers in the entities room
-      io.to('entities').emit('entity_update', {
-        ...validated,
-        updatedBy: user?.username,
+      socket.emit('entity_snapshot', {
+        entities: entityEvents.snapshot(socket.id, validated.entity_ids),
         timestamp: new Date().toISOString(),
       });
-
-      console.log(`[WebSocket] Entity update from ${user?.username}:`, validated.entityId);
     } catch (error: any) {
-      console.error('[WebSocket] Entity update validation error:', error.message);
+      console.error('[WebSocket] Snapshot request validation error:', error.message);
       socket.emit('error', {
         type: 'VALIDATION_ERROR',
-        message: 'Invalid entity update data',
+        message: 'Invalid snapshot request',
         details: error.message,
       });
     }
   });
 
-  // Pairing request
-  socket.on('pairing_request', (data) => {
+  // Replay entity updates missed while disconnected; sent after subscribing
+  // again so the socket's filter applies
+  socket.on('resume', (data) => {
     try {
-      const validated = validatePairing(data);
-
-      // Only admin can approve pairing
-      if (user?.role !== 'admin') {
-        socket.emit('error', {
-          type: 'UNAUTHORIZED',
-          message: 'Only admin users can approve pairing requests',
+      const validated = validateResume(data);
+      const result = entityEvents.resume(socket.id, validated.last_seq, validated.epoch);
+
+      if ('resync' in result) {
+        console.log(`[WebSocket] ${user?.username} must resync (${result.resync})`);
+        socket.emit('resync_required', {
+          reason: result.resync,
+          ...entityEvents.getReplayPosition(),
+          timestamp: new Date().toISOString(),
         });
         return;
       }
 
-      // Broadcast pairing request
-      io.emit('pairing_request', {
-        ...validated,
-        requestedBy: user?.username,
+      socket.emit('resume_complete', {
+        replayed: result.replayed,
+        ...entityEvents.getReplayPosition(),
         timestamp: new Date().toISOString(),
       });
-
-      console.log(`[WebSocket] Pairing request from ${user?.username}`);
     } catch (error: any) {
-      console.error('[WebSocket] Pairing validation error:', error.message);
+      console.error('[WebSocket] Resume validation error:', error.message);
       socket.emit('error', {
         type: 'VALIDATION_ERROR',
-        message: 'Invalid pairing data',
+        message: 'Invalid resume request',
         details: error.message,
       });
     }
   });
 
-  // Config update notification
-  socket.on('config_update', (data) => {
-    try {
-      const validated = validateConfigUpdate(data);
+  // Service call answered through the acknowledgement callback with the HA
+  // result or a typed error
+  socket.on('call_service', async (data, ack) => {
+    if (typeof ack !== 'function') {
+      socket.emit('error', {
+        type: 'VALIDATION_ERROR',
+        message: 'call_service requires an acknowledgement callback',
+      });
+      return;
+    }
 
-      // Only admin can update config
-      if (user?.role !== 'admin') {
-        socket.emit('error', {
-          type: 'UNAUTHORIZED',
-          message: 'Only admin users can update configuration',
-        });
-        return;
+    let response: ServiceCallResponse;
+    try {
+      let validated;
+      try {
+        validated = validateServiceCall(data);
+      } catch (error: any) {
+        throw new ValidationError(`Invalid service call: ${error.message}`);
       }
 
-      // Broadcast to all clients
-      io.emit('config_update', {
-        ...validated,
-        updatedBy: user?.username,
-        timestamp: new Date().toISOString(),
+      const result = await callServiceAs(haInstances, user?.role, validated);
+      console.log(`[WebSocket] ${user?.username} called ${validated.domain}.${validated.service}`);
+      response = { success: true, result };
+    } catch (error: any) {
+      console.error(`[WebSocket] Service call by ${user?.username} failed:`, error.message);
+      response = { success: false, error: toServiceCallError(error) };
+    }
+    ack(response);
+  });
+
+  // Minimum interval between entity updates, coalescing in between
+  socket.on('set_throttle', (data) => {
+    try {
+      const validated = validateThrottle(data);
+
+      const settings = entityEvents.setThrottle(socket.id, {
+        intervalMs: validated.interval_ms,
+        domains: validated.domains,
+        entities: validated.entities,
       });
 
-      console.log(`[WebSocket] Config update from ${user?.username}:`, validated.key);
+      socket.emit('throttle_updated', {
+        settings,
+        counters: entityEvents.getThrottleCounters(socket.id),
+        timestamp: new Date().toISOString(),
+      });
     } catch (error: any) {
-      console.error('[WebSocket] Config update validation error:', error.message);
+      console.error('[WebSocket] Throttle validation error:', error.message);
       socket.emit('error', {
         type: 'VALIDATION_ERROR',
-        message: 'Invalid config update data',
+        message: 'Invalid throttle settings',
         details: error.message,
       });
     }
@@ -1462,6 +2167,8 @@ app.get('/api/privacy-policy', readLimiter, (req, res) => {
   // Disconnect handler
   socket.on('disconnect', (reason) => {
     console.log(`[WebSocket] User disconnected: ${user?.username} (${socket.id}), reason: ${reason}`);
+    socketSubscriptions.remove(socket.id);
+    entityEvents.forget(socket.id);
 
     // Log disconnection
     const disconnectInfo = {
@@ -1492,12 +2199,14 @@ mainServer.listen(tlsOptions.port, () => {
     console.log(`  API:       https://localhost:${tlsOptions.port}/api`);
     console.log(`  Health:    https://localhost:${tlsOptions.port}/api/health`);
     console.log(`  WebSocket: wss://localhost:${tlsOptions.port}`);
+    console.log(`  Devices:   wss://localhost:${tlsOptions.port}${WS_PATH}`);
     console.log(`  API Docs:  https://localhost:${tlsOptions.port}/api-docs`);
   } else {
     console.log(`  Protocol:  HTTP (⚠ INSECURE - Enable TLS!)`);
     console.log(`  API:       http://localhost:${tlsOptions.port}/api`);
     console.log(`  Health:    http://localhost:${tlsOptions.port}/api/health`);
     console.log(`  WebSocket: ws://localhost:${tlsOptions.port}`);
+    console.log(`  Devices:   ws://localhost:${tlsOptions.port}${WS_PATH}`);
     console.log(`  API Docs:  http://localhost:${tlsOptions.port}/api-docs`);
   }
 
@@ -1518,6 +2227,8 @@ if (httpRedirectServer && tlsOptions.redirectHttp) {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, closing servers...');
+  haInstances.disconnectAll();
+  wsServer?.close();
   mainServer.close(() => {
     if (httpRedirectServer) {
       httpRedirectServer.close(() => {
@@ -4,7 +4,7 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { AppError } from '../errors/AppError';
+import { AppError, HomeAssistantError } from '../errors/AppError';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('ErrorHandler');
@@ -69,6 +69,7 @@ export const errorHandler = (
     res.status(err.statusCode).json({
       error: err.message,
       statusCode: err.statusCode,
+      ...(err instanceof HomeAssistantError && { code: err.code }),
       timestamp: errorInfo.timestamp,
       ...(process.env.NODE_ENV === 'development' && {
         stack: err.stack,
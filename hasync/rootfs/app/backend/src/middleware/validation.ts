@@ -3,14 +3,14 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { ValidationError } from '../types';
+import { ValidationError } from '../errors/AppError';
 
 export const validatePairingRequest = (
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
-  const { pin, device_name, device_type, public_key } = req.body;
+  const { pin, device_name, device_type, public_key, csr } = req.body;
 
   if (!pin || typeof pin !== 'string' || pin.length !== 6) {
     throw new ValidationError('PIN must be a 6-digit string');
@@ -24,8 +24,13 @@ export const validatePairingRequest = (
     throw new ValidationError('Device type is required');
   }
 
-  if (!public_key || typeof public_key !== 'string') {
-    throw new ValidationError('Public key is required');
+  // The certificate is issued for a public key or a CSR
+  if (csr !== undefined && typeof csr !== 'string') {
+    throw new ValidationError('CSR must be a PEM string');
+  }
+
+  if (!csr && (!public_key || typeof public_key !== 'string')) {
+    throw new ValidationError('Public key or CSR is required');
   }
 
   next();
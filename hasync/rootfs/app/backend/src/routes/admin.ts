@@ -13,8 +13,13 @@ import {
   setDatabasePermissions
 } from '../utils/database-security';
 import { join } from 'path';
+import { ConfigSecretStore } from '../services/config-secrets';
 
-export function createAdminRouter(db: Database.Database): Router {
+export interface AdminRouterOptions {
+  configSecrets?: ConfigSecretStore | null;
+}
+
+export function createAdminRouter(db: Database.Database, options: AdminRouterOptions = {}): Router {
   const router = Router();
 
   // Apply admin authentication and rate limiting to all routes
@@ -225,5 +230,38 @@ export function createAdminRouter(db: Database.Database): Router {
     }
   });
 
+  /**
+   * Replace the server secret and re-encrypt configuration secrets
+   * POST /api/admin/rekey
+   * Secrets in backups taken before the re-key stay encrypted with the old key
+   */
+  router.post('/rekey', (req, res) => {
+    if (!options.configSecrets) {
+      return res.status(503).json({
+        success: false,
+        error: 'Configuration store unavailable'
+      });
+    }
+
+    try {
+      const reencrypted = options.configSecrets.rekey();
+      console.log(`✓ Configuration secrets re-keyed (${reencrypted} row(s), key ${options.configSecrets.getKeyId()})`);
+
+      res.json({
+        success: true,
+        message: 'Configuration secrets re-encrypted with a new key',
+        reencrypted,
+        keyId: options.configSecrets.getKeyId()
+      });
+    } catch (error: any) {
+      console.error('Re-key error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to re-key configuration secrets',
+        message: error?.message || 'Unknown error'
+      });
+    }
+  });
+
   return router;
 }
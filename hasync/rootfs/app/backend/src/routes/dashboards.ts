@@ -0,0 +1,112 @@
+/**
+ * Dashboard Routes
+ * CRUD for HAsync dashboards; views and cards live in dashboards.config
+ */
+
+import { Router, Request, RequestHandler } from 'express';
+import { DatabaseService } from '../database';
+import { asyncHandler } from '../middleware/errorHandler';
+import { NotFoundError } from '../errors/AppError';
+import { validateBody, validateParams } from '../validation/middleware';
+import {
+  createDashboardSchema,
+  updateDashboardSchema,
+  dashboardIdParamSchema,
+  CreateDashboardInput,
+  UpdateDashboardInput
+} from '../validation/schemas';
+
+export interface DashboardRouterOptions {
+  readMiddleware?: RequestHandler[];
+  writeMiddleware?: RequestHandler[];
+  // users.id recorded as created_by for new dashboards
+  getOwnerId: (req: Request) => string;
+  // Pulls dashboards in from an external source before POST /sync responds
+  sync?: () => Promise<void>;
+  // Called after a dashboard was created, updated or deleted
+  onChange?: (dashboardId: string, action: 'created' | 'updated' | 'deleted') => void;
+}
+
+export function createDashboardRouter(db: DatabaseService, options: DashboardRouterOptions): Router {
+  const router = Router();
+  const read = options.readMiddleware || [];
+  const write = options.writeMiddleware || [];
+  const onChange = options.onChange || (() => {});
+
+  /**
+   * List dashboards
+   * GET /api/dashboards
+   */
+  router.get('/', ...read, (_req, res) => {
+    res.json(db.getAllDashboards());
+  });
+
+  /**
+   * Sync dashboards and return the resulting list
+   * POST /api/dashboards/sync
+   */
+  router.post('/sync', ...write, asyncHandler(async (_req: Request, res: any) => {
+    if (options.sync) {
+      await options.sync();
+    }
+    res.json(db.getAllDashboards());
+  }));
+
+  /**
+   * Get a dashboard with its views and cards
+   * GET /api/dashboards/:id
+   */
+  router.get('/:id', ...read, validateParams(dashboardIdParamSchema), asyncHandler(async (req: Request, res: any) => {
+    const dashboard = db.getDashboard(req.params.id);
+    if (!dashboard) {
+      throw new NotFoundError('Dashboard');
+    }
+    res.json(dashboard);
+  }));
+
+  /**
+   * Create a dashboard
+   * POST /api/dashboards
+   */
+  router.post('/', ...write, validateBody(createDashboardSchema), asyncHandler(async (req: Request, res: any) => {
+    const input = req.body as CreateDashboardInput;
+    const dashboard = db.createDashboard(input, options.getOwnerId(req));
+    console.log(`✓ Dashboard ${dashboard.id} created`);
+    onChange(dashboard.id, 'created');
+
+    res.status(201).json(dashboard);
+  }));
+
+  /**
+   * Update name, views or default flag
+   * PUT /api/dashboards/:id
+   */
+  router.put(
+    '/:id',
+    ...write,
+    validateParams(dashboardIdParamSchema),
+    validateBody(updateDashboardSchema),
+    asyncHandler(async (req: Request, res: any) => {
+      const input = req.body as UpdateDashboardInput;
+      if (!db.updateDashboard(req.params.id, input)) {
+        throw new NotFoundError('Dashboard');
+      }
+      onChange(req.params.id, 'updated');
+      res.json(db.getDashboard(req.params.id));
+    })
+  );
+
+  /**
+   * Delete a dashboard
+   * DELETE /api/dashboards/:id
+   */
+  router.delete('/:id', ...write, validateParams(dashboardIdParamSchema), asyncHandler(async (req: Request, res: any) => {
+    if (!db.deleteDashboard(req.params.id)) {
+      throw new NotFoundError('Dashboard');
+    }
+    onChange(req.params.id, 'deleted');
+    res.json({ success: true });
+  }));
+
+  return router;
+}
@@ -10,6 +10,7 @@ import { createServer } from 'http';
 import { DatabaseService } from './database';
 import { HomeAssistantService } from './services/homeassistant';
 import { PairingService } from './services/pairing';
+import { CertificateAuthority } from './services/certificate-authority';
 import { WebSocketServer } from './websocket/server';
 import { AuthMiddleware } from './middleware/auth';
 import { requestLogger } from './middleware/logger';
@@ -43,7 +44,10 @@ export class App01Server {
     // Initialize services
     this.db = new DatabaseService(config.database.path);
     this.haService = new HomeAssistantService(config.homeAssistant);
-    this.pairingService = new PairingService(this.db);
+    this.pairingService = new PairingService(this.db, new CertificateAuthority({
+      get: (key) => this.db.getConfig(key),
+      set: (key, value) => this.db.setConfig(key, value)
+    }));
     this.wsServer = new WebSocketServer(this.server, this.pairingService, this.haService);
 
     this.setupMiddleware();
@@ -0,0 +1,254 @@
+/**
+ * Area Sync Service
+ * Imports Home Assistant areas as HAsync areas and, for linked areas, records
+ * HA-side changes as diffs for the admin to accept or reject
+ */
+
+import { DatabaseService } from '../database';
+import { HomeAssistantService } from './homeassistant';
+import { Area, AreaLink, AreaLinkDiff, HAArea } from '../types';
+import { ConflictError, NotFoundError, ServiceUnavailableError } from '../errors/AppError';
+import { InputSanitizer } from '../utils/database-security';
+
+export interface AreaImportOptions {
+  haAreaIds?: string[];
+  linked?: boolean;
+}
+
+export interface AreaImportResult {
+  imported: Array<Area & { haAreaId: string; linked: boolean }>;
+  skipped: Array<{ haAreaId: string; reason: 'already_imported' | 'not_found' }>;
+}
+
+export class AreaSyncService {
+  private haService: HomeAssistantService | null = null;
+
+  private readonly onRegistriesChanged = () => {
+    this.detectChanges().catch(error => {
+      console.error('Failed to check linked areas for changes:', error.message);
+    });
+  };
+
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Start watching the given HA connection for registry changes
+   */
+  attach(haService: HomeAssistantService): void {
+    this.detach();
+    this.haService = haService;
+    haService.on('registries_loaded', this.onRegistriesChanged);
+    haService.on('registry_refreshed', this.onRegistriesChanged);
+  }
+
+  detach(): void {
+    if (!this.haService) {
+      return;
+    }
+
+    this.haService.off('registries_loaded', this.onRegistriesChanged);
+    this.haService.off('registry_refreshed', this.onRegistriesChanged);
+    this.haService = null;
+  }
+
+  /**
+   * Create an area for each HA area (or the given subset) not imported yet,
+   * filled with the entities HA assigns to it
+   */
+  async importAreas(options: AreaImportOptions = {}): Promise<AreaImportResult> {
+    const haService = this.requireHomeAssistant();
+    const haAreas = await haService.getAreas();
+    const membership = await this.getHAMembership();
+
+    const alreadyImported = new Set(this.db.getAreaLinks().map(link => link.haAreaId));
+    const haAreasById = new Map(haAreas.map(area => [area.area_id, area]));
+    const requested = options.haAreaIds || haAreas.map(area => area.area_id);
+
+    const result: AreaImportResult = { imported: [], skipped: [] };
+    let nextStamp = Date.now();
+
+    for (const haAreaId of requested) {
+      const haArea = haAreasById.get(haAreaId);
+      if (!haArea) {
+        result.skipped.push({ haAreaId, reason: 'not_found' });
+        continue;
+      }
+      if (alreadyImported.has(haAreaId)) {
+        result.skipped.push({ haAreaId, reason: 'already_imported' });
+        continue;
+      }
+
+      // Same area_<timestamp> format as manually created areas
+      while (this.db.getArea(`area_${nextStamp}`)) {
+        nextStamp++;
+      }
+      const areaId = `area_${nextStamp++}`;
+      const entityIds = membership.get(haAreaId) || [];
+      const linked = options.linked === true;
+
+      const area = this.db.createArea(areaId, InputSanitizer.sanitizeString(haArea.name, 100), entityIds);
+      this.db.createAreaLink({ areaId, haAreaId, linked, haName: haArea.name, haEntityIds: entityIds });
+      alreadyImported.add(haAreaId);
+
+      result.imported.push({ ...area, haAreaId, linked });
+    }
+
+    return result;
+  }
+
+  getLinks(): AreaLink[] {
+    return this.db.getAreaLinks();
+  }
+
+  getLink(areaId: string): AreaLink {
+    const link = this.db.getAreaLink(areaId);
+    if (!link) {
+      throw new NotFoundError('Area link');
+    }
+    return link;
+  }
+
+  /**
+   * Turn linked mode on or off; unlinking drops any pending diff
+   */
+  async setLinked(areaId: string, linked: boolean): Promise<AreaLink> {
+    this.getLink(areaId);
+    this.db.updateAreaLink(areaId, linked ? { linked } : { linked, pendingDiff: null });
+    if (linked) {
+      await this.detectChanges();
+    }
+    return this.getLink(areaId);
+  }
+
+  /**
+   * Compare every linked area against HA and store what changed since the
+   * last import or review. Returns the number of areas with a pending diff.
+   */
+  async detectChanges(): Promise<number> {
+    if (!this.haService?.hasRegistries()) {
+      return 0;
+    }
+
+    const haAreas = new Map((await this.haService.getAreas()).map(area => [area.area_id, area]));
+    const membership = await this.getHAMembership();
+    let pending = 0;
+
+    for (const link of this.db.getAreaLinks(true)) {
+      const diff = this.computeDiff(link, haAreas.get(link.haAreaId), membership.get(link.haAreaId) || []);
+      if (JSON.stringify(diff) !== JSON.stringify(link.pendingDiff)) {
+        this.db.updateAreaLink(link.areaId, { pendingDiff: diff });
+      }
+      if (diff) {
+        pending++;
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * Apply the pending diff. Removed entities are dropped and new ones are
+   * appended, so the admin's ordering of the remaining entities is kept.
+   */
+  acceptChanges(areaId: string): Area {
+    const link = this.getLink(areaId);
+    const diff = this.requireDiff(link);
+    const area = this.db.getArea(areaId)!;
+
+    const removed = new Set(diff.removed);
+    const entityIds = area.entityIds.filter(entityId => !removed.has(entityId));
+    diff.added.forEach(entityId => {
+      if (!entityIds.includes(entityId)) {
+        entityIds.push(entityId);
+      }
+    });
+
+    // Only follow an HA rename if the admin hasn't renamed the area themselves
+    const name = diff.name && area.name === InputSanitizer.sanitizeString(diff.name.from, 100)
+      ? InputSanitizer.sanitizeString(diff.name.to, 100)
+      : undefined;
+
+    this.db.updateArea(areaId, { name, entityIds });
+    this.markReviewed(link, diff);
+
+    return this.db.getArea(areaId)!;
+  }
+
+  /**
+   * Dismiss the pending diff, leaving the area untouched
+   */
+  rejectChanges(areaId: string): AreaLink {
+    const link = this.getLink(areaId);
+    this.markReviewed(link, this.requireDiff(link));
+    return this.getLink(areaId);
+  }
+
+  // Move HA's reviewed side forward so the same changes aren't reported again
+  private markReviewed(link: AreaLink, diff: AreaLinkDiff): void {
+    const removed = new Set(diff.removed);
+    const haEntityIds = link.haEntityIds
+      .filter(entityId => !removed.has(entityId))
+      .concat(diff.added.filter(entityId => !link.haEntityIds.includes(entityId)));
+
+    this.db.updateAreaLink(link.areaId, {
+      haEntityIds,
+      haName: diff.name ? diff.name.to : link.haName,
+      pendingDiff: null,
+      // Nothing left to follow once the HA area is gone
+      ...(diff.areaRemoved && { linked: false })
+    });
+  }
+
+  private computeDiff(link: AreaLink, haArea: HAArea | undefined, haEntityIds: string[]): AreaLinkDiff | null {
+    if (!haArea) {
+      return { added: [], removed: [...link.haEntityIds], areaRemoved: true };
+    }
+
+    const diff: AreaLinkDiff = {
+      added: haEntityIds.filter(entityId => !link.haEntityIds.includes(entityId)),
+      removed: link.haEntityIds.filter(entityId => !haEntityIds.includes(entityId))
+    };
+    if (haArea.name !== link.haName) {
+      diff.name = { from: link.haName, to: haArea.name };
+    }
+
+    return diff.added.length || diff.removed.length || diff.name ? diff : null;
+  }
+
+  // HA area id -> entity ids in that area, skipping disabled and hidden entities
+  private async getHAMembership(): Promise<Map<string, string[]>> {
+    const haService = this.requireHomeAssistant();
+    const entries = await haService.getEntityRegistry();
+    const membership = new Map<string, string[]>();
+
+    entries
+      .filter(entry => !entry.disabled_by && !entry.hidden_by)
+      .map(entry => entry.entity_id)
+      .sort()
+      .forEach(entityId => {
+        const haAreaId = haService.getEntityAreaId(entityId);
+        if (haAreaId) {
+          membership.set(haAreaId, [...(membership.get(haAreaId) || []), entityId]);
+        }
+      });
+
+    return membership;
+  }
+
+  private requireDiff(link: AreaLink): AreaLinkDiff {
+    if (!link.pendingDiff) {
+      throw new ConflictError('No pending Home Assistant changes for this area');
+    }
+    return link.pendingDiff;
+  }
+
+  private requireHomeAssistant(): HomeAssistantService {
+    if (!this.haService) {
+      throw new ServiceUnavailableError(
+        'Home Assistant',
+        'Please configure Home Assistant URL and token in Settings'
+      );
+    }
+    return this.haService;
+  }
+}
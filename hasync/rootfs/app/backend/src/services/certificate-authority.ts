@@ -0,0 +1,240 @@
+/**
+ * Certificate Authority
+ * HAsync's own CA, created on first boot and kept in the configuration
+ * table (the private key encrypted, see SECRET_CONFIG_KEYS). It signs X.509
+ * client certificates for paired devices from their public key or CSR and
+ * publishes revoked serial numbers as a CRL.
+ */
+
+// @peculiar/x509 resolves its crypto provider through tsyringe
+import 'reflect-metadata';
+import * as x509 from '@peculiar/x509';
+import { webcrypto, randomBytes, createPublicKey } from 'crypto';
+import { ValidationError } from '../errors/AppError';
+
+// Imported rather than globalThis.crypto, which Node 18 does not define
+x509.cryptoProvider.set(webcrypto);
+
+export const CA_CERTIFICATE_KEY = 'ca_certificate';
+export const CA_PRIVATE_KEY_KEY = 'ca_private_key';
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+const CA_VALIDITY_DAYS = 3650;
+const DEFAULT_CLIENT_VALIDITY_DAYS = 365;
+// Tolerates devices whose clocks run slightly behind
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Where the CA is persisted; ConfigSecretStore in production
+export interface CertificateAuthorityStore {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+}
+
+export interface ClientCertificateRequest {
+  commonName: string;
+  // SPKI PEM; ignored when a CSR is given
+  publicKey?: string;
+  // PKCS#10 PEM, signed with the key to certify
+  csr?: string;
+}
+
+export interface IssuedCertificate {
+  certificate: string;
+  // SPKI PEM of the certified key
+  publicKey: string;
+  // Upper-case hex, as Node's X509Certificate reports it
+  serialNumber: string;
+  expiresAt: number;
+}
+
+export interface RevokedSerial {
+  serialNumber: string;
+  revokedAt: number;
+}
+
+export class CertificateAuthority {
+  private ready: Promise<{ certificate: x509.X509Certificate; privateKey: webcrypto.CryptoKey }> | null = null;
+
+  constructor(
+    private store: CertificateAuthorityStore,
+    private clientValidityDays = DEFAULT_CLIENT_VALIDITY_DAYS
+  ) {}
+
+  /**
+   * Load the CA, creating it if none is stored yet
+   * @returns whether a new CA was created
+   */
+  async initialize(): Promise<boolean> {
+    const created = !this.store.get(CA_CERTIFICATE_KEY);
+    await this.load();
+    return created;
+  }
+
+  async getCertificate(): Promise<string> {
+    const { certificate } = await this.load();
+    return certificate.toString('pem');
+  }
+
+  /**
+   * SPKI PEM of the key a request would certify, without signing anything
+   * @throws ValidationError like issueClientCertificate
+   */
+  async getRequestPublicKey(request: Omit<ClientCertificateRequest, 'commonName'>): Promise<string> {
+    return toPem(await this.getRequestedKey(request));
+  }
+
+  /**
+   * Sign a client certificate for the request's public key or CSR
+   * @throws ValidationError for unreadable keys and CSRs with a bad signature
+   */
+  async issueClientCertificate(request: ClientCertificateRequest): Promise<IssuedCertificate> {
+    const { certificate: ca, privateKey } = await this.load();
+    const publicKey = await this.getRequestedKey(request);
+
+    const now = Date.now();
+    const expiresAt = now + this.clientValidityDays * DAY_MS;
+    const serialNumber = this.generateSerialNumber();
+
+    const certificate = await x509.X509CertificateGenerator.create({
+      serialNumber,
+      subject: [{ CN: [request.commonName] }, { O: ['HAsync'] }],
+      issuer: ca.subject,
+      notBefore: new Date(now - CLOCK_SKEW_MS),
+      notAfter: new Date(expiresAt),
+      publicKey,
+      signingKey: privateKey,
+      signingAlgorithm: SIGNING_ALGORITHM,
+      extensions: [
+        new x509.BasicConstraintsExtension(false, undefined, true),
+        new x509.KeyUsagesExtension(x509.KeyUsageFlags.digitalSignature, true),
+        new x509.ExtendedKeyUsageExtension([x509.ExtendedKeyUsage.clientAuth]),
+        await x509.SubjectKeyIdentifierExtension.create(publicKey),
+        await x509.AuthorityKeyIdentifierExtension.create(ca.publicKey)
+      ]
+    });
+
+    return {
+      certificate: certificate.toString('pem'),
+      publicKey: toPem(publicKey),
+      serialNumber,
+      expiresAt
+    };
+  }
+
+  /**
+   * CRL of the given revoked serials, valid until the next day
+   */
+  async createCrl(revoked: RevokedSerial[]): Promise<string> {
+    const { certificate: ca, privateKey } = await this.load();
+    const now = Date.now();
+
+    const crl = await x509.X509CrlGenerator.create({
+      issuer: ca.subject,
+      thisUpdate: new Date(now),
+      nextUpdate: new Date(now + DAY_MS),
+      entries: revoked.map(entry => ({
+        serialNumber: entry.serialNumber,
+        revocationDate: new Date(entry.revokedAt)
+      })),
+      signingKey: privateKey,
+      signingAlgorithm: SIGNING_ALGORITHM,
+      extensions: [await x509.AuthorityKeyIdentifierExtension.create(ca.publicKey)]
+    });
+
+    // OpenSSL only reads the X509 CRL label
+    return x509.PemConverter.encode(crl.rawData, 'X509 CRL');
+  }
+
+  private load(): Promise<{ certificate: x509.X509Certificate; privateKey: webcrypto.CryptoKey }> {
+    if (!this.ready) {
+      this.ready = this.loadOrCreate();
+      // A failed load is retried on next use
+      this.ready.catch(() => {
+        this.ready = null;
+      });
+    }
+    return this.ready;
+  }
+
+  private async loadOrCreate(): Promise<{ certificate: x509.X509Certificate; privateKey: webcrypto.CryptoKey }> {
+    const storedCertificate = this.store.get(CA_CERTIFICATE_KEY);
+    const storedKey = this.store.get(CA_PRIVATE_KEY_KEY);
+
+    if (storedCertificate && storedKey) {
+      const privateKey = await webcrypto.subtle.importKey(
+        'pkcs8',
+        x509.PemConverter.decodeFirst(storedKey),
+        SIGNING_ALGORITHM,
+        false,
+        ['sign']
+      );
+      return { certificate: new x509.X509Certificate(storedCertificate), privateKey };
+    }
+
+    const keys = await webcrypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']);
+    const now = Date.now();
+    const certificate = await x509.X509CertificateGenerator.createSelfSigned({
+      serialNumber: this.generateSerialNumber(),
+      name: [{ CN: ['HAsync Client CA'] }, { O: ['HAsync'] }],
+      notBefore: new Date(now - CLOCK_SKEW_MS),
+      notAfter: new Date(now + CA_VALIDITY_DAYS * DAY_MS),
+      keys,
+      signingAlgorithm: SIGNING_ALGORITHM,
+      extensions: [
+        new x509.BasicConstraintsExtension(true, 0, true),
+        new x509.KeyUsagesExtension(x509.KeyUsageFlags.keyCertSign | x509.KeyUsageFlags.cRLSign, true),
+        await x509.SubjectKeyIdentifierExtension.create(keys.publicKey)
+      ]
+    });
+
+    // Key first: a certificate without its key would be unusable
+    const pkcs8 = await webcrypto.subtle.exportKey('pkcs8', keys.privateKey);
+    this.store.set(CA_PRIVATE_KEY_KEY, x509.PemConverter.encode(pkcs8, 'PRIVATE KEY'));
+    this.store.set(CA_CERTIFICATE_KEY, certificate.toString('pem'));
+
+    return { certificate, privateKey: keys.privateKey };
+  }
+
+  private async getRequestedKey(request: Omit<ClientCertificateRequest, 'commonName'>): Promise<x509.PublicKey> {
+    if (request.csr) {
+      let csr: x509.Pkcs10CertificateRequest;
+      try {
+        csr = new x509.Pkcs10CertificateRequest(request.csr);
+      } catch (error) {
+        throw new ValidationError('CSR is not a valid PKCS#10 request');
+      }
+      // Proves possession of the private key
+      if (!(await csr.verify())) {
+        throw new ValidationError('CSR signature is invalid');
+      }
+      return csr.publicKey;
+    }
+
+    if (!request.publicKey) {
+      throw new ValidationError('Public key or CSR is required');
+    }
+    try {
+      // Accepts SPKI and PKCS#1 PEM alike
+      const spki = createPublicKey(request.publicKey).export({ type: 'spki', format: 'der' });
+      return new x509.PublicKey(spki);
+    } catch (error) {
+      throw new ValidationError('Public key is not a valid PEM key');
+    }
+  }
+
+  // 128 random bits; the first byte keeps the DER integer positive and
+  // free of leading zeros
+  private generateSerialNumber(): string {
+    const bytes = randomBytes(16);
+    bytes[0] = 0x40 | (bytes[0] & 0x3f);
+    return bytes.toString('hex').toUpperCase();
+  }
+}
+
+// Node's PEM form, so the same key always compares equal
+function toPem(publicKey: x509.PublicKey): string {
+  return createPublicKey({ key: Buffer.from(publicKey.rawData), format: 'der', type: 'spki' })
+    .export({ type: 'spki', format: 'pem' })
+    .toString();
+}
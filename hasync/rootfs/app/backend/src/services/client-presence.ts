@@ -0,0 +1,85 @@
+/**
+ * Client Presence Tracker
+ * Tracks which paired clients are connected over the realtime servers and
+ * keeps `clients.last_seen` current from their heartbeats. Emits
+ * `client_connected` when a client's first connection opens and
+ * `client_disconnected` when its last one closes.
+ */
+
+import { EventEmitter } from 'events';
+
+export interface ClientConnection {
+  connectionId: string;
+  // Realtime server the client is connected to, e.g. 'ws'
+  transport: string;
+  ipAddress?: string;
+  connectedAt: string;
+  lastHeartbeat: string;
+}
+
+export interface ClientPresence {
+  status: 'online' | 'offline';
+  connections: ClientConnection[];
+}
+
+export class ClientPresenceTracker extends EventEmitter {
+  private connections = new Map<string, Map<string, ClientConnection>>();
+
+  /**
+   * @param touch Records that a client was just seen (updates last_seen)
+   */
+  constructor(private touch: (clientId: string) => void) {
+    super();
+  }
+
+  connect(clientId: string, connectionId: string, details: { transport: string; ipAddress?: string }): void {
+    const now = new Date().toISOString();
+    const clientConnections = this.connections.get(clientId) || new Map<string, ClientConnection>();
+    const isFirst = clientConnections.size === 0;
+
+    const connection = { connectionId, ...details, connectedAt: now, lastHeartbeat: now };
+    clientConnections.set(connectionId, connection);
+    this.connections.set(clientId, clientConnections);
+    this.touch(clientId);
+
+    if (isFirst) {
+      this.emit('client_connected', clientId, connection);
+    }
+  }
+
+  heartbeat(clientId: string, connectionId: string): void {
+    const connection = this.connections.get(clientId)?.get(connectionId);
+    if (!connection) {
+      return;
+    }
+
+    connection.lastHeartbeat = new Date().toISOString();
+    this.touch(clientId);
+  }
+
+  disconnect(clientId: string, connectionId: string): void {
+    const clientConnections = this.connections.get(clientId);
+    const connection = clientConnections?.get(connectionId);
+    if (!clientConnections || !connection) {
+      return;
+    }
+
+    clientConnections.delete(connectionId);
+    if (clientConnections.size === 0) {
+      this.connections.delete(clientId);
+      this.emit('client_disconnected', clientId, connection);
+    }
+  }
+
+  getPresence(clientId: string): ClientPresence {
+    const connections = Array.from(this.connections.get(clientId)?.values() || []);
+    return {
+      status: connections.length > 0 ? 'online' : 'offline',
+      connections: connections.map(connection => ({ ...connection }))
+    };
+  }
+
+  getOnlineCount(): number {
+    return this.connections.size;
+  }
+}
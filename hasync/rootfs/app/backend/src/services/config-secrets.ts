@@ -0,0 +1,171 @@
+/**
+ * Configuration Secret Store
+ * Reads and writes `configuration` rows, encrypting the ones that hold
+ * secrets (HA tokens, the client CA key) with AES-256-GCM. The key is
+ * derived with HKDF from a random server secret kept next to the database
+ * in /data.
+ */
+
+import * as Database from 'better-sqlite3';
+import { randomBytes, createCipheriv, createDecipheriv, hkdfSync, createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync, renameSync } from 'fs';
+
+// Configuration keys whose whole value is stored encrypted
+export const SECRET_CONFIG_KEYS = ['ha_config', 'ha_instances', 'ca_private_key'];
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const SECRET_BYTES = 32;
+const IV_BYTES = 12;
+
+interface ConfigKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Mask a secret for API responses, keeping only its last four characters
+ */
+export function maskSecret(secret: string | undefined | null): string | null {
+  if (!secret) {
+    return null;
+  }
+  return secret.length <= 8 ? '********' : `********${secret.slice(-4)}`;
+}
+
+export class ConfigSecretStore {
+  private current!: ConfigKey;
+  // Every key rows may still be encrypted with, by key ID
+  private keys = new Map<string, ConfigKey>();
+
+  constructor(
+    private db: Database.Database,
+    private secretPath: string
+  ) {
+    this.loadKeys();
+  }
+
+  get(key: string): string | null {
+    const row: any = this.db.prepare('SELECT value FROM configuration WHERE key = ?').get(key);
+    if (!row) {
+      return null;
+    }
+    return this.isEncrypted(row.value) ? this.decrypt(row.value) : row.value;
+  }
+
+  set(key: string, value: string): void {
+    const stored = SECRET_CONFIG_KEYS.includes(key) ? this.encrypt(value, this.current) : value;
+    this.db.prepare('INSERT OR REPLACE INTO configuration (key, value) VALUES (?, ?)').run(key, stored);
+  }
+
+  /**
+   * Encrypt secret rows written before encryption existed
+   * @returns number of rows encrypted
+   */
+  encryptPlaintext(): number {
+    const rows = this.getSecretRows().filter(row => !this.isEncrypted(row.value));
+    rows.forEach(row => this.set(row.key, row.value));
+    return rows.length;
+  }
+
+  /**
+   * Replace the server secret and re-encrypt every secret row with the new
+   * key. The new secret is written next to the old one first, so a crash
+   * midway leaves both keys available on the next boot.
+   * @returns number of rows re-encrypted
+   */
+  rekey(): number {
+    const secret = randomBytes(SECRET_BYTES).toString('hex');
+    writeFileSync(this.getPendingPath(), secret, { mode: 0o600 });
+
+    return this.switchTo(this.deriveKey(secret));
+  }
+
+  getKeyId(): string {
+    return this.current.id;
+  }
+
+  private loadKeys(): void {
+    if (!existsSync(this.secretPath)) {
+      writeFileSync(this.secretPath, randomBytes(SECRET_BYTES).toString('hex'), { mode: 0o600 });
+      console.log(`✓ Server secret created: ${this.secretPath}`);
+    }
+
+    this.current = this.deriveKey(readFileSync(this.secretPath, 'utf8').trim());
+    this.keys.set(this.current.id, this.current);
+
+    // Left over from an interrupted re-key: rows may use either key, so the
+    // re-key is finished by promoting the new secret
+    if (existsSync(this.getPendingPath())) {
+      this.switchTo(this.deriveKey(readFileSync(this.getPendingPath(), 'utf8').trim()));
+      console.warn('⚠ Finished an interrupted configuration re-key');
+    }
+  }
+
+  /**
+   * Re-encrypt every secret row with the pending key, then make its secret
+   * the server secret
+   */
+  private switchTo(next: ConfigKey): number {
+    this.keys.set(next.id, next);
+
+    const rows = this.getSecretRows();
+    const update = this.db.prepare('UPDATE configuration SET value = ? WHERE key = ?');
+    this.db.transaction(() => {
+      rows.forEach(row => {
+        const plaintext = this.isEncrypted(row.value) ? this.decrypt(row.value) : row.value;
+        update.run(this.encrypt(plaintext, next), row.key);
+      });
+    })();
+
+    renameSync(this.getPendingPath(), this.secretPath);
+    this.keys = new Map([[next.id, next]]);
+    this.current = next;
+
+    return rows.length;
+  }
+
+  private getPendingPath(): string {
+    return `${this.secretPath}.new`;
+  }
+
+  private deriveKey(secret: string): ConfigKey {
+    const key = Buffer.from(hkdfSync('sha256', secret, 'hasync-configuration', 'configuration secrets v1', 32));
+    const id = createHash('sha256').update(key).digest('hex').substring(0, 8);
+    return { id, key };
+  }
+
+  private getSecretRows(): Array<{ key: string; value: string }> {
+    const placeholders = SECRET_CONFIG_KEYS.map(() => '?').join(', ');
+    return this.db.prepare(`SELECT key, value FROM configuration WHERE key IN (${placeholders})`)
+      .all(...SECRET_CONFIG_KEYS) as Array<{ key: string; value: string }>;
+  }
+
+  private isEncrypted(value: string): boolean {
+    return value.startsWith(ENCRYPTED_PREFIX);
+  }
+
+  // enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>, all base64 but the key ID
+  private encrypt(plaintext: string, configKey: ConfigKey): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', configKey.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return ENCRYPTED_PREFIX + [
+      configKey.id,
+      iv.toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      ciphertext.toString('base64')
+    ].join(':');
+  }
+
+  private decrypt(value: string): string {
+    const [keyId, iv, tag, ciphertext] = value.substring(ENCRYPTED_PREFIX.length).split(':');
+    const configKey = this.keys.get(keyId);
+    if (!configKey) {
+      throw new Error(`Configuration value was encrypted with an unknown key (${keyId})`);
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', configKey.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  }
+}
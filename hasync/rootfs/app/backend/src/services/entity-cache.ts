@@ -0,0 +1,135 @@
+/**
+ * Entity Cache Service
+ * Persists Home Assistant states to the entity_cache table so the API can
+ * keep answering with last known values while HA is unreachable.
+ * With a namespace, rows are stored as <namespace>:<entity_id> so several
+ * HA instances can share the table.
+ */
+
+import { DatabaseService } from '../database';
+import { HomeAssistantService } from './homeassistant';
+import { HAEntity, CachedHAEntity } from '../types';
+
+export class EntityCacheService {
+  private static readonly FLUSH_INTERVAL_MS = 5000;
+
+  // Latest state per entity waiting to be written; null marks a removal
+  private pending = new Map<string, HAEntity | null>();
+  private flushTimer: NodeJS.Timeout;
+  private haService: HomeAssistantService | null = null;
+
+  private readonly onStatesLoaded = (states: HAEntity[]) => {
+    // A full snapshot supersedes anything still queued
+    this.pending.clear();
+    try {
+      this.db.replaceEntityCache(states.map(state => this.toStored(state)), this.namespace || null);
+    } catch (error: any) {
+      console.error('Failed to seed entity cache:', error.message);
+    }
+  };
+
+  private readonly onStateChanged = (data: any) => {
+    if (data?.entity_id) {
+      this.pending.set(this.toStoredId(data.entity_id), data.new_state ? this.toStored(data.new_state) : null);
+    }
+  };
+
+  constructor(private db: DatabaseService, private namespace?: string) {
+    // State changes are batched into one transaction per interval
+    this.flushTimer = setInterval(() => this.flush(), EntityCacheService.FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Start persisting states from the given HA connection
+   */
+  attach(haService: HomeAssistantService): void {
+    this.detach();
+    this.haService = haService;
+    haService.on('states_loaded', this.onStatesLoaded);
+    haService.on('state_changed', this.onStateChanged);
+  }
+
+  /**
+   * Stop listening to the current HA connection, keeping what is cached
+   */
+  detach(): void {
+    if (!this.haService) {
+      return;
+    }
+
+    this.haService.off('states_loaded', this.onStatesLoaded);
+    this.haService.off('state_changed', this.onStateChanged);
+    this.haService = null;
+    this.flush();
+  }
+
+  /**
+   * Write queued state changes to the database
+   */
+  flush(): void {
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    const updates: HAEntity[] = [];
+    const removals: string[] = [];
+    this.pending.forEach((state, entityId) => {
+      if (state) {
+        updates.push(state);
+      } else {
+        removals.push(entityId);
+      }
+    });
+    this.pending.clear();
+
+    try {
+      this.db.cacheEntities(updates);
+      removals.forEach(entityId => this.db.deleteCachedEntity(entityId));
+    } catch (error: any) {
+      console.error('Failed to write entity cache:', error.message);
+    }
+  }
+
+  /**
+   * Last known states, flagged as stale with the time they were cached
+   */
+  getCachedStates(): CachedHAEntity[] {
+    return this.db.getAllCachedEntities()
+      .filter(row => this.ownsStoredId(row.entity_id))
+      .map(row => this.toCachedState(row));
+  }
+
+  getCachedState(entityId: string): CachedHAEntity | null {
+    const row = this.db.getCachedEntity(this.toStoredId(entityId));
+    return row ? this.toCachedState(row) : null;
+  }
+
+  close(): void {
+    clearInterval(this.flushTimer);
+    this.detach();
+    this.flush();
+  }
+
+  private toStoredId(entityId: string): string {
+    return this.namespace ? `${this.namespace}:${entityId}` : entityId;
+  }
+
+  private toStored(state: HAEntity): HAEntity {
+    return { ...state, entity_id: this.toStoredId(state.entity_id) };
+  }
+
+  private ownsStoredId(storedId: string): boolean {
+    return this.namespace ? storedId.startsWith(`${this.namespace}:`) : !storedId.includes(':');
+  }
+
+  // Cached state with the entity ID as HA knows it
+  private toCachedState(row: any): CachedHAEntity {
+    const { cached_at, ...state } = row;
+    return {
+      ...state,
+      entity_id: this.namespace ? state.entity_id.substring(this.namespace.length + 1) : state.entity_id,
+      stale: true,
+      cachedAt: new Date(cached_at * 1000).toISOString()
+    };
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Entity Delta Tracker
+ * Keeps the last state and a version number for every entity that changed,
+ * so realtime clients that opted in receive only the changed state and
+ * attribute keys. A client whose last version isn't `version - 1` (or
+ * `baseVersion` when set) missed an update and asks for a snapshot instead.
+ */
+
+import { HAEntity, EntityDelta, EntitySnapshotEntry } from '../types';
+
+type EntityDeltaFields = Pick<EntityDelta, 'state' | 'attributes' | 'removedAttributes' | 'last_changed' | 'last_updated'>;
+
+interface TrackedEntity {
+  version: number;
+  state: HAEntity | null;
+}
+
+export class EntityDeltaTracker {
+  private entities = new Map<string, TrackedEntity>();
+
+  /**
+   * Record a state change and describe it as a delta against the previous
+   * version. Before the first recorded change the event's old state is the
+   * base, which is what clients loaded over the REST API.
+   */
+  record(entityId: string, oldState: HAEntity | null, newState: HAEntity | null): EntityDelta {
+    const tracked = this.entities.get(entityId);
+    const base = tracked ? tracked.state : oldState;
+    const version = (tracked?.version || 0) + 1;
+
+    this.entities.set(entityId, { version, state: newState });
+
+    const delta: EntityDelta = { entityId, version, timestamp: new Date().toISOString() };
+    if (!newState) {
+      delta.removed = true;
+      return delta;
+    }
+    return { ...delta, ...diffEntityState(base, newState) };
+  }
+
+  getVersion(entityId: string): number {
+    return this.entities.get(entityId)?.version || 0;
+  }
+
+  /**
+   * Current state and version of the given entities, or of every tracked
+   * entity the predicate accepts
+   */
+  snapshot(entityIds?: string[], include: (entityId: string) => boolean = () => true): EntitySnapshotEntry[] {
+    const ids = entityIds || Array.from(this.entities.keys());
+    return ids
+      .filter(entityId => this.entities.has(entityId) && include(entityId))
+      .map(entityId => {
+        const tracked = this.entities.get(entityId)!;
+        return { entityId, version: tracked.version, state: tracked.state };
+      });
+  }
+}
+
+/**
+ * Changed state, timestamps and attribute keys between two states. With no
+ * base every field is included.
+ */
+export function diffEntityState(base: HAEntity | null, next: HAEntity): EntityDeltaFields {
+  const diff: EntityDeltaFields = {};
+  const baseAttributes = base?.attributes || {};
+  const nextAttributes = next.attributes || {};
+
+  if (base?.state !== next.state) {
+    diff.state = next.state;
+  }
+  if (base?.last_changed !== next.last_changed) {
+    diff.last_changed = next.last_changed;
+  }
+  if (base?.last_updated !== next.last_updated) {
+    diff.last_updated = next.last_updated;
+  }
+
+  const changed = Object.keys(nextAttributes)
+    .filter(key => !(key in baseAttributes) || !isEqual(baseAttributes[key], nextAttributes[key]));
+  if (changed.length > 0) {
+    diff.attributes = Object.fromEntries(changed.map(key => [key, nextAttributes[key]]));
+  }
+
+  const removed = Object.keys(baseAttributes).filter(key => !(key in nextAttributes));
+  if (removed.length > 0) {
+    diff.removedAttributes = removed;
+  }
+
+  return diff;
+}
+
+/**
+ * Combine two consecutive deltas of an entity into one covering both
+ * versions, for clients whose updates are throttled
+ */
+export function mergeEntityDeltas(earlier: EntityDelta, later: EntityDelta): EntityDelta {
+  const baseVersion = earlier.baseVersion ?? earlier.version - 1;
+  // Removal, or re-added after one: the later delta already holds everything
+  if (later.removed || earlier.removed) {
+    return { ...later, baseVersion };
+  }
+
+  const attributes = { ...earlier.attributes, ...later.attributes };
+  const removedAttributes = new Set(earlier.removedAttributes || []);
+  (later.removedAttributes || []).forEach(key => {
+    removedAttributes.add(key);
+    delete attributes[key];
+  });
+  Object.keys(later.attributes || {}).forEach(key => removedAttributes.delete(key));
+
+  const merged: EntityDelta = { ...earlier, ...later, baseVersion };
+  delete merged.attributes;
+  delete merged.removedAttributes;
+  if (Object.keys(attributes).length > 0) {
+    merged.attributes = attributes;
+  }
+  if (removedAttributes.size > 0) {
+    merged.removedAttributes = Array.from(removedAttributes);
+  }
+  return merged;
+}
+
+// Attribute values are plain JSON from Home Assistant
+function isEqual(a: any, b: any): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
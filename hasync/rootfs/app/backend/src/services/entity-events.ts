@@ -0,0 +1,187 @@
+/**
+ * Entity Event Bridge
+ * Pushes Home Assistant state_changed events from every instance to
+ * Socket.IO subscribers of the `entities` room as `entity_update`, limited
+ * to the entities each socket subscribed to. Sockets that opted into delta
+ * mode get `entity_delta` with only the changed fields instead. Sockets can
+ * throttle entities or domains, coalescing updates in between. Every update
+ * carries a sequence number a reconnecting socket can resume from.
+ */
+
+import { Server as SocketIOServer } from 'socket.io';
+import { HomeAssistantService } from './homeassistant';
+import { HAInstanceManager } from './ha-instances';
+import { EntitySubscriptionRegistry } from './entity-subscriptions';
+import { EntityDeltaTracker, mergeEntityDeltas } from './entity-deltas';
+import { EntityUpdateThrottler, ThrottleSettings, ThrottleCounters } from './entity-throttle';
+import { RealtimeEventBuffer, ResyncReason } from './event-replay';
+import { HAEntity, EntityDelta, EntitySnapshotEntry } from '../types';
+
+export const ENTITIES_ROOM = 'entities';
+
+export interface EntityUpdatePayload {
+  // API entity ID, namespaced for non-default instances
+  entityId: string;
+  instanceId: string;
+  // null when the entity was added (old) or removed (new)
+  oldState: HAEntity | null;
+  newState: HAEntity | null;
+  source: 'homeassistant';
+  timestamp: string;
+  // Position in the replay buffer, see resume()
+  seq?: number;
+}
+
+type EntityMessage =
+  | { event: 'entity_update'; payload: EntityUpdatePayload }
+  | { event: 'entity_delta'; payload: EntityDelta };
+
+export class EntityEventBridge {
+  private listeners = new Map<string, { service: HomeAssistantService; handler: (data: any) => void }>();
+  private deltaSockets = new Set<string>();
+  private throttle = new EntityUpdateThrottler<EntityMessage>(coalesceEntityMessages);
+
+  constructor(
+    private io: SocketIOServer,
+    private subscriptions: EntitySubscriptionRegistry,
+    private deltas: EntityDeltaTracker = new EntityDeltaTracker(),
+    private history = new RealtimeEventBuffer<{ update: EntityUpdatePayload; delta: EntityDelta }>()
+  ) {}
+
+  attach(instanceId: string, service: HomeAssistantService): void {
+    this.detach(instanceId);
+
+    const handler = (data: any) => {
+      if (!data?.entity_id) {
+        return;
+      }
+      this.publish(toEntityUpdate(instanceId, data));
+    };
+
+    service.on('state_changed', handler);
+    this.listeners.set(instanceId, { service, handler });
+  }
+
+  publish(update: EntityUpdatePayload): void {
+    // Versioned even without delta sockets, so one opting in later can
+    // detect gaps against the same numbers
+    const delta = this.deltas.record(update.entityId, update.oldState, update.newState);
+    const { event } = this.history.append(update.entityId, seq => ({
+      update: { ...update, seq },
+      delta: { ...delta, seq }
+    }));
+
+    const socketIds = this.io.sockets.adapter.rooms.get(ENTITIES_ROOM);
+    socketIds?.forEach(socketId => {
+      if (!this.subscriptions.matches(socketId, update.entityId)) {
+        return;
+      }
+      this.throttle.submit(socketId, update.entityId, this.toMessage(socketId, event), next => {
+        this.io.to(socketId).emit(next.event, next.payload);
+      });
+    });
+  }
+
+  /**
+   * Send a reconnected socket what it missed since `lastSeq`, one coalesced
+   * message per entity, unless the buffer no longer covers the gap
+   */
+  resume(socketId: string, lastSeq: number, epoch?: string): { replayed: number } | { resync: ResyncReason } {
+    const result = this.history.since(lastSeq, epoch);
+    if ('resync' in result) {
+      return result;
+    }
+
+    const missed = new Map<string, EntityMessage>();
+    result.events
+      .filter(buffered => this.subscriptions.matches(socketId, buffered.entityId))
+      .forEach(buffered => {
+        const message = this.toMessage(socketId, buffered.event);
+        const pending = missed.get(buffered.entityId);
+        // Re-inserted so entities are replayed in the order of their last change
+        missed.delete(buffered.entityId);
+        missed.set(buffered.entityId, pending ? coalesceEntityMessages(pending, message) : message);
+      });
+
+    missed.forEach(message => this.io.to(socketId).emit(message.event, message.payload));
+    return { replayed: missed.size };
+  }
+
+  // Where a new subscriber starts, for resuming later
+  getReplayPosition(): { seq: number; epoch: string } {
+    return { seq: this.history.getSeq(), epoch: this.history.epoch };
+  }
+
+  setDeltaMode(socketId: string, enabled: boolean): void {
+    if (enabled) {
+      this.deltaSockets.add(socketId);
+    } else {
+      this.deltaSockets.delete(socketId);
+    }
+  }
+
+  /**
+   * Full states and versions for a socket resyncing after a version gap,
+   * limited to what it subscribed to
+   */
+  snapshot(socketId: string, entityIds?: string[]): EntitySnapshotEntry[] {
+    return this.deltas.snapshot(entityIds, entityId => this.subscriptions.matches(socketId, entityId));
+  }
+
+  setThrottle(socketId: string, settings: ThrottleSettings): ThrottleSettings {
+    return this.throttle.configure(socketId, settings);
+  }
+
+  getThrottleCounters(socketId?: string): ThrottleCounters {
+    return this.throttle.getCounters(socketId);
+  }
+
+  forget(socketId: string): void {
+    this.deltaSockets.delete(socketId);
+    this.throttle.remove(socketId);
+  }
+
+  detach(instanceId: string): void {
+    const listener = this.listeners.get(instanceId);
+    if (!listener) {
+      return;
+    }
+
+    listener.service.off('state_changed', listener.handler);
+    this.listeners.delete(instanceId);
+  }
+
+  private toMessage(socketId: string, event: { update: EntityUpdatePayload; delta: EntityDelta }): EntityMessage {
+    return this.deltaSockets.has(socketId)
+      ? { event: 'entity_delta', payload: event.delta }
+      : { event: 'entity_update', payload: event.update };
+  }
+}
+
+/**
+ * Keep the latest state but the first old state; deltas are merged so the
+ * version chain stays intact. A mode switch in between sends the newer one.
+ */
+function coalesceEntityMessages(pending: EntityMessage, next: EntityMessage): EntityMessage {
+  if (pending.event === 'entity_delta' && next.event === 'entity_delta') {
+    return { event: 'entity_delta', payload: mergeEntityDeltas(pending.payload, next.payload) };
+  }
+  if (pending.event === 'entity_update' && next.event === 'entity_update') {
+    return { event: 'entity_update', payload: { ...next.payload, oldState: pending.payload.oldState } };
+  }
+  return next;
+}
+
+/**
+ * Build the Socket.IO payload for a state_changed event's data
+ */
+export function toEntityUpdate(instanceId: string, data: any): EntityUpdatePayload {
+  return {
+    entityId: HAInstanceManager.toGlobalEntityId(instanceId, data.entity_id),
+    instanceId,
+    oldState: data.old_state ? HAInstanceManager.toGlobalState(instanceId, data.old_state) : null,
+    newState: data.new_state ? HAInstanceManager.toGlobalState(instanceId, data.new_state) : null,
+    source: 'homeassistant',
+    timestamp: new Date().toISOString()
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Entity Subscription Registry
+ * Tracks which entities each realtime subscriber (Socket.IO socket or /ws
+ * client) wants: exact entity IDs, globs like `sensor.*_power`, and HAsync
+ * areas. Area subscriptions are resolved to the area's entity IDs and
+ * re-resolved whenever the area changes.
+ */
+
+export interface EntitySubscriptionFilter {
+  entityIds?: string[];
+  patterns?: string[];
+  areaIds?: string[];
+}
+
+// What a subscriber is currently matched against
+export interface ResolvedSubscription {
+  entityIds: string[];
+  patterns: string[];
+  areaIds: string[];
+  // Entities the subscribed areas contain right now
+  areaEntityIds: Record<string, string[]>;
+}
+
+interface Subscription {
+  entityIds: Set<string>;
+  patterns: Map<string, RegExp>;
+  areaIds: Set<string>;
+}
+
+// Area entity IDs by area ID, or null if the area doesn't exist
+export type AreaEntityResolver = (areaId: string) => string[] | null;
+
+/**
+ * `*` matches any run of characters, `?` a single one
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+export class EntitySubscriptionRegistry {
+  private subscriptions = new Map<string, Subscription>();
+  private areaMembers = new Map<string, Set<string>>();
+
+  constructor(private resolveArea: AreaEntityResolver) {}
+
+  /**
+   * Add entities, patterns or areas to a subscriber's filter. An empty
+   * filter subscribes to everything.
+   */
+  subscribe(subscriberId: string, filter: EntitySubscriptionFilter): ResolvedSubscription {
+    const subscription = this.subscriptions.get(subscriberId) || {
+      entityIds: new Set<string>(),
+      patterns: new Map<string, RegExp>(),
+      areaIds: new Set<string>()
+    };
+
+    if (this.isEmpty(filter)) {
+      subscription.patterns.set('*', globToRegExp('*'));
+    }
+    (filter.entityIds || []).forEach(id => subscription.entityIds.add(id));
+    (filter.patterns || []).forEach(pattern => subscription.patterns.set(pattern, globToRegExp(pattern)));
+    (filter.areaIds || []).forEach(areaId => {
+      subscription.areaIds.add(areaId);
+      if (!this.areaMembers.has(areaId)) {
+        this.loadArea(areaId);
+      }
+    });
+
+    this.subscriptions.set(subscriberId, subscription);
+    return this.describe(subscription);
+  }
+
+  /**
+   * Remove parts of a subscriber's filter; an empty filter removes it all
+   */
+  unsubscribe(subscriberId: string, filter: EntitySubscriptionFilter = {}): ResolvedSubscription | null {
+    const subscription = this.subscriptions.get(subscriberId);
+    if (!subscription) {
+      return null;
+    }
+
+    if (this.isEmpty(filter)) {
+      this.remove(subscriberId);
+      return null;
+    }
+
+    (filter.entityIds || []).forEach(id => subscription.entityIds.delete(id));
+    (filter.patterns || []).forEach(pattern => subscription.patterns.delete(pattern));
+    (filter.areaIds || []).forEach(areaId => subscription.areaIds.delete(areaId));
+    this.pruneAreas();
+
+    return this.describe(subscription);
+  }
+
+  remove(subscriberId: string): void {
+    if (this.subscriptions.delete(subscriberId)) {
+      this.pruneAreas();
+    }
+  }
+
+  has(subscriberId: string): boolean {
+    return this.subscriptions.has(subscriberId);
+  }
+
+  get(subscriberId: string): ResolvedSubscription | null {
+    const subscription = this.subscriptions.get(subscriberId);
+    return subscription ? this.describe(subscription) : null;
+  }
+
+  matches(subscriberId: string, entityId: string): boolean {
+    const subscription = this.subscriptions.get(subscriberId);
+    if (!subscription) {
+      return false;
+    }
+
+    if (subscription.entityIds.has(entityId)) {
+      return true;
+    }
+    for (const areaId of subscription.areaIds) {
+      if (this.areaMembers.get(areaId)?.has(entityId)) {
+        return true;
+      }
+    }
+    for (const pattern of subscription.patterns.values()) {
+      if (pattern.test(entityId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Re-read an area's entities after it was changed or deleted
+   * @returns IDs of subscribers following the area
+   */
+  refreshArea(areaId: string): string[] {
+    const subscribers = Array.from(this.subscriptions.entries())
+      .filter(([, subscription]) => subscription.areaIds.has(areaId))
+      .map(([subscriberId]) => subscriberId);
+
+    if (subscribers.length > 0) {
+      this.loadArea(areaId);
+    }
+    return subscribers;
+  }
+
+  private loadArea(areaId: string): void {
+    this.areaMembers.set(areaId, new Set(this.resolveArea(areaId) || []));
+  }
+
+  // Forget memberships no subscriber follows anymore
+  private pruneAreas(): void {
+    const followed = new Set<string>();
+    this.subscriptions.forEach(subscription => subscription.areaIds.forEach(areaId => followed.add(areaId)));
+    Array.from(this.areaMembers.keys())
+      .filter(areaId => !followed.has(areaId))
+      .forEach(areaId => this.areaMembers.delete(areaId));
+  }
+
+  private isEmpty(filter: EntitySubscriptionFilter): boolean {
+    return !filter.entityIds?.length && !filter.patterns?.length && !filter.areaIds?.length;
+  }
+
+  private describe(subscription: Subscription): ResolvedSubscription {
+    const areaEntityIds: Record<string, string[]> = {};
+    subscription.areaIds.forEach(areaId => {
+      areaEntityIds[areaId] = Array.from(this.areaMembers.get(areaId) || []);
+    });
+
+    return {
+      entityIds: Array.from(subscription.entityIds),
+      patterns: Array.from(subscription.patterns.keys()),
+      areaIds: Array.from(subscription.areaIds),
+      areaEntityIds
+    };
+  }
+}
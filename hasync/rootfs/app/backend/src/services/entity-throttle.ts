@@ -0,0 +1,173 @@
+/**
+ * Entity Update Throttler
+ * Limits how often each realtime subscriber receives updates for an entity.
+ * Updates arriving within the minimum interval are coalesced into one pending
+ * message per entity, which is flushed on a timer once the interval passed.
+ */
+
+export interface ThrottleSettings {
+  // Minimum milliseconds between updates of one entity, 0 for no limit
+  intervalMs?: number;
+  // Per domain (`sensor`) and per entity ID, taking precedence in that order
+  domains?: Record<string, number>;
+  entities?: Record<string, number>;
+}
+
+export interface ThrottleCounters {
+  sent: number;
+  // Updates replaced by a newer one before they were sent
+  coalesced: number;
+  // Pending updates discarded because the subscriber went away
+  dropped: number;
+}
+
+// Power and energy sensors are the chatty ones; desktops keep full rate
+export const DEVICE_TYPE_THROTTLE_DEFAULTS: Record<string, ThrottleSettings> = {
+  desktop: {},
+  tablet: { domains: { sensor: 1000 } },
+  mobile: { domains: { sensor: 2000 } },
+  other: { domains: { sensor: 1000 } }
+};
+
+export function getDeviceThrottleDefaults(deviceType?: string | null): ThrottleSettings {
+  return DEVICE_TYPE_THROTTLE_DEFAULTS[deviceType || ''] || DEVICE_TYPE_THROTTLE_DEFAULTS.other;
+}
+
+// Domain of a plain or instance-namespaced entity ID
+export function getEntityDomain(entityId: string): string {
+  const local = entityId.includes(':') ? entityId.substring(entityId.indexOf(':') + 1) : entityId;
+  return local.split('.')[0];
+}
+
+interface PendingUpdate<T> {
+  message: T;
+  send: (message: T) => boolean | void;
+  timer: NodeJS.Timeout;
+}
+
+interface SubscriberThrottle<T> {
+  settings: ThrottleSettings;
+  lastSent: Map<string, number>;
+  pending: Map<string, PendingUpdate<T>>;
+  counters: ThrottleCounters;
+}
+
+export class EntityUpdateThrottler<T> {
+  private subscribers = new Map<string, SubscriberThrottle<T>>();
+  private totals: ThrottleCounters = { sent: 0, coalesced: 0, dropped: 0 };
+
+  /**
+   * @param coalesce Combine a pending message with a newer one for the same
+   * entity; by default the newer one wins
+   */
+  constructor(private coalesce: (pending: T, next: T) => T = (_pending, next) => next) {}
+
+  /**
+   * Merge settings into a subscriber's current ones
+   */
+  configure(subscriberId: string, settings: ThrottleSettings): ThrottleSettings {
+    const subscriber = this.getSubscriber(subscriberId);
+    subscriber.settings = {
+      intervalMs: settings.intervalMs ?? subscriber.settings.intervalMs,
+      domains: { ...subscriber.settings.domains, ...settings.domains },
+      entities: { ...subscriber.settings.entities, ...settings.entities }
+    };
+    return subscriber.settings;
+  }
+
+  getSettings(subscriberId: string): ThrottleSettings {
+    return this.subscribers.get(subscriberId)?.settings || {};
+  }
+
+  getIntervalMs(subscriberId: string, entityId: string): number {
+    const { intervalMs, domains, entities } = this.getSettings(subscriberId);
+    return entities?.[entityId] ?? domains?.[getEntityDomain(entityId)] ?? intervalMs ?? 0;
+  }
+
+  /**
+   * Send an update now, or hold it until the entity's interval has passed
+   * @param send Delivers the message; returning false counts it as dropped
+   */
+  submit(subscriberId: string, entityId: string, message: T, send: (message: T) => boolean | void): void {
+    const subscriber = this.getSubscriber(subscriberId);
+    const pending = subscriber.pending.get(entityId);
+
+    if (pending) {
+      pending.message = this.coalesce(pending.message, message);
+      pending.send = send;
+      this.count(subscriber, 'coalesced');
+      return;
+    }
+
+    const wait = (subscriber.lastSent.get(entityId) || 0) + this.getIntervalMs(subscriberId, entityId) - Date.now();
+    if (wait <= 0) {
+      this.deliver(subscriber, entityId, message, send);
+      return;
+    }
+
+    const timer = setTimeout(() => this.flush(subscriberId, entityId), wait);
+    timer.unref();
+    subscriber.pending.set(entityId, { message, send, timer });
+  }
+
+  /**
+   * Forget a subscriber, dropping its pending updates
+   */
+  remove(subscriberId: string): void {
+    const subscriber = this.subscribers.get(subscriberId);
+    if (!subscriber) {
+      return;
+    }
+
+    subscriber.pending.forEach(pending => {
+      clearTimeout(pending.timer);
+      this.count(subscriber, 'dropped');
+    });
+    this.subscribers.delete(subscriberId);
+  }
+
+  /**
+   * Counters of one subscriber, or totals since startup
+   */
+  getCounters(subscriberId?: string): ThrottleCounters {
+    if (subscriberId === undefined) {
+      return { ...this.totals };
+    }
+    return { ...(this.subscribers.get(subscriberId)?.counters || { sent: 0, coalesced: 0, dropped: 0 }) };
+  }
+
+  private flush(subscriberId: string, entityId: string): void {
+    const subscriber = this.subscribers.get(subscriberId);
+    const pending = subscriber?.pending.get(entityId);
+    if (!subscriber || !pending) {
+      return;
+    }
+
+    subscriber.pending.delete(entityId);
+    this.deliver(subscriber, entityId, pending.message, pending.send);
+  }
+
+  private deliver(subscriber: SubscriberThrottle<T>, entityId: string, message: T, send: (message: T) => boolean | void): void {
+    subscriber.lastSent.set(entityId, Date.now());
+    this.count(subscriber, send(message) === false ? 'dropped' : 'sent');
+  }
+
+  private count(subscriber: SubscriberThrottle<T>, counter: keyof ThrottleCounters): void {
+    subscriber.counters[counter]++;
+    this.totals[counter]++;
+  }
+
+  private getSubscriber(subscriberId: string): SubscriberThrottle<T> {
+    let subscriber = this.subscribers.get(subscriberId);
+    if (!subscriber) {
+      subscriber = {
+        settings: {},
+        lastSent: new Map(),
+        pending: new Map(),
+        counters: { sent: 0, coalesced: 0, dropped: 0 }
+      };
+      this.subscribers.set(subscriberId, subscriber);
+    }
+    return subscriber;
+  }
+}
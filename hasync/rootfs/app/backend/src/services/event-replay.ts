@@ -0,0 +1,77 @@
+/**
+ * Realtime Event Buffer
+ * Ring buffer of the most recent realtime events, numbered with a sequence
+ * that only grows. A client reconnecting after a short outage sends the
+ * last sequence it saw and gets the events it missed; if those have already
+ * been overwritten, or the server restarted since (different epoch), it has
+ * to resync from scratch instead.
+ *
+ * Updates still held back by throttling when a client dropped aren't
+ * replayed if a later event was already sent; such entities catch up on
+ * their next change.
+ */
+
+import { randomBytes } from 'crypto';
+
+export const DEFAULT_REPLAY_CAPACITY = 2000;
+
+export interface BufferedEvent<T> {
+  seq: number;
+  entityId: string;
+  event: T;
+}
+
+export type ResyncReason = 'epoch_changed' | 'gap_too_large' | 'ahead_of_server';
+
+export type ReplayResult<T> =
+  | { events: BufferedEvent<T>[] }
+  | { resync: ResyncReason };
+
+export class RealtimeEventBuffer<T> {
+  // Identifies this server run; sequences restart with it
+  readonly epoch = randomBytes(8).toString('hex');
+  private events: Array<BufferedEvent<T> | undefined>;
+  private seq = 0;
+
+  constructor(private capacity: number = DEFAULT_REPLAY_CAPACITY) {
+    this.events = new Array(capacity);
+  }
+
+  /**
+   * Store an event under the next sequence number
+   * @param build Creates the event, so it can carry its own sequence
+   */
+  append(entityId: string, build: (seq: number) => T): BufferedEvent<T> {
+    const seq = ++this.seq;
+    const buffered = { seq, entityId, event: build(seq) };
+    this.events[seq % this.capacity] = buffered;
+    return buffered;
+  }
+
+  getSeq(): number {
+    return this.seq;
+  }
+
+  /**
+   * Events after `lastSeq`, oldest first, or why the client must resync
+   */
+  since(lastSeq: number, epoch?: string): ReplayResult<T> {
+    if (epoch && epoch !== this.epoch) {
+      return { resync: 'epoch_changed' };
+    }
+    if (lastSeq > this.seq) {
+      return { resync: 'ahead_of_server' };
+    }
+
+    const oldest = Math.max(1, this.seq - this.capacity + 1);
+    if (lastSeq < oldest - 1) {
+      return { resync: 'gap_too_large' };
+    }
+
+    const events: BufferedEvent<T>[] = [];
+    for (let seq = lastSeq + 1; seq <= this.seq; seq++) {
+      events.push(this.events[seq % this.capacity]!);
+    }
+    return { events };
+  }
+}
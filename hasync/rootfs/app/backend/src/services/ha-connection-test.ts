@@ -0,0 +1,136 @@
+/**
+ * Home Assistant Connection Test
+ * Checks a URL and token against the HA REST API from the server, so the
+ * browser never has to reach HA itself (which fails with CORS under ingress)
+ */
+
+import { HAConnectionTestCategory, HAConnectionTestResult } from '../types';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Node's fetch wraps socket errors in error.cause
+const UNREACHABLE_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH'
+]);
+
+export interface HAConnectionTestOptions {
+  timeout?: number;
+}
+
+/**
+ * Fetch /api/config for the version, then /api/states for the entity count
+ */
+export async function testHAConnection(
+  url: string,
+  token: string,
+  options: HAConnectionTestOptions = {}
+): Promise<HAConnectionTestResult> {
+  const started = Date.now();
+  const fail = (category: HAConnectionTestCategory, message: string): HAConnectionTestResult => ({
+    success: false,
+    category,
+    message,
+    latencyMs: Date.now() - started
+  });
+
+  let baseUrl: string;
+  try {
+    const parsed = new URL(url);
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      return fail('invalid_url', 'URL must start with http:// or https://');
+    }
+    baseUrl = url.replace(/\/+$/, '');
+  } catch {
+    return fail('invalid_url', 'URL is not valid');
+  }
+
+  const get = (path: string) => fetch(`${baseUrl}/api${path}`, {
+    headers: { 'Authorization': `Bearer ${token}`, 'Accept': 'application/json' },
+    signal: AbortSignal.timeout(options.timeout || DEFAULT_TIMEOUT_MS)
+  });
+
+  try {
+    const configResponse = await get('/config');
+    const failure = checkResponse(configResponse);
+    if (failure) {
+      return fail(failure.category, failure.message);
+    }
+
+    const config: any = await configResponse.json().catch(() => null);
+    if (!config || typeof config.version !== 'string') {
+      return fail('not_home_assistant', 'The server answered, but not like Home Assistant does');
+    }
+
+    const statesResponse = await get('/states');
+    const statesFailure = checkResponse(statesResponse);
+    if (statesFailure) {
+      return fail(statesFailure.category, statesFailure.message);
+    }
+    const states: any = await statesResponse.json().catch(() => null);
+
+    return {
+      success: true,
+      message: `Connected to Home Assistant ${config.version}`,
+      version: config.version,
+      locationName: config.location_name,
+      entityCount: Array.isArray(states) ? states.length : 0,
+      latencyMs: Date.now() - started
+    };
+  } catch (error: any) {
+    const { category, message } = categorizeFetchError(error);
+    return fail(category, message);
+  }
+}
+
+/**
+ * Token for a test or save request: the one sent, else the saved token - but
+ * only for the saved URL, so it is never sent to a host the caller picked
+ */
+export function resolveHAToken(
+  url: unknown,
+  token: unknown,
+  saved: { url?: string; token?: string }
+): string | undefined {
+  if (typeof token === 'string' && token) {
+    return token;
+  }
+  const sameUrl = typeof url === 'string' && !!saved.url && normalizeUrl(url) === normalizeUrl(saved.url);
+  return sameUrl ? saved.token : undefined;
+}
+
+function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function checkResponse(response: Response): { category: HAConnectionTestCategory; message: string } | null {
+  if (response.ok) {
+    return null;
+  }
+
+  switch (response.status) {
+    case 401:
+      return { category: 'auth_invalid', message: 'Access token was rejected' };
+    case 403:
+      return { category: 'forbidden', message: 'Access token lacks permission for the HA API' };
+    case 404:
+      return { category: 'not_home_assistant', message: 'No Home Assistant API found at this URL' };
+    default:
+      return { category: 'http_error', message: `Home Assistant returned HTTP ${response.status}` };
+  }
+}
+
+function categorizeFetchError(error: any): { category: HAConnectionTestCategory; message: string } {
+  if (error?.name === 'TimeoutError' || error?.name === 'AbortError') {
+    return { category: 'timeout', message: 'Home Assistant did not respond in time' };
+  }
+
+  const code: string = error?.cause?.code || error?.code || '';
+  if (UNREACHABLE_CODES.has(code)) {
+    return { category: 'unreachable', message: `Could not reach Home Assistant (${code})` };
+  }
+  if (code.includes('CERT') || code.startsWith('ERR_TLS') || code === 'DEPTH_ZERO_SELF_SIGNED_CERT') {
+    return { category: 'tls_error', message: `TLS handshake failed (${code})` };
+  }
+
+  return { category: 'unreachable', message: error?.cause?.message || error?.message || 'Could not reach Home Assistant' };
+}
@@ -0,0 +1,154 @@
+/**
+ * Home Assistant Instance Manager
+ * One HomeAssistantService (and entity cache) per configured HA instance.
+ * Entity IDs from the default instance are used as-is; IDs from any other
+ * instance are namespaced as `<instanceId>:<entity_id>`.
+ */
+
+import { HomeAssistantService } from './homeassistant';
+import { EntityCacheService } from './entity-cache';
+import { DatabaseService } from '../database';
+import { HAEntity, HAInstanceConfig, HAInstanceStatus } from '../types';
+
+export const DEFAULT_INSTANCE_ID = 'default';
+
+const INSTANCE_ID_REGEX = /^[a-z0-9_]{1,32}$/;
+
+export interface HAInstance {
+  config: HAInstanceConfig;
+  service: HomeAssistantService;
+  cache: EntityCacheService | null;
+}
+
+export interface HAInstanceManagerOptions {
+  // Called after an instance's service is created, and before it is torn down
+  onConnect?: (instance: HAInstance) => void;
+  onDisconnect?: (instance: HAInstance) => void;
+}
+
+export class HAInstanceManager {
+  private instances = new Map<string, HAInstance>();
+
+  constructor(
+    private db: DatabaseService | null,
+    private options: HAInstanceManagerOptions = {}
+  ) {}
+
+  static isValidInstanceId(id: string): boolean {
+    return INSTANCE_ID_REGEX.test(id);
+  }
+
+  /**
+   * Entity ID as exposed by the API for an instance
+   */
+  static toGlobalEntityId(instanceId: string, entityId: string): string {
+    return instanceId === DEFAULT_INSTANCE_ID ? entityId : `${instanceId}:${entityId}`;
+  }
+
+  /**
+   * Split an API entity ID into its instance and HA entity ID
+   */
+  static parseEntityId(globalId: string): { instanceId: string; entityId: string } {
+    const separator = globalId.indexOf(':');
+    return separator === -1
+      ? { instanceId: DEFAULT_INSTANCE_ID, entityId: globalId }
+      : { instanceId: globalId.substring(0, separator), entityId: globalId.substring(separator + 1) };
+  }
+
+  /**
+   * Namespace a state from an instance for API responses
+   */
+  static toGlobalState<T extends HAEntity | Omit<HAEntity, 'context'>>(instanceId: string, state: T): T {
+    return {
+      ...state,
+      entity_id: HAInstanceManager.toGlobalEntityId(instanceId, state.entity_id),
+      instance_id: instanceId
+    };
+  }
+
+  /**
+   * Bring connections in line with the given configs: new instances are
+   * connected, changed ones reconnected and removed ones closed
+   */
+  sync(configs: HAInstanceConfig[]): void {
+    const wanted = new Map(configs.map(config => [config.id, config]));
+
+    this.instances.forEach((instance, id) => {
+      const config = wanted.get(id);
+      if (
+        !config ||
+        config.url !== instance.config.url ||
+        config.token !== instance.config.token ||
+        config.mode !== instance.config.mode
+      ) {
+        this.disconnect(id);
+      } else {
+        // Renames don't need a new connection
+        instance.config = config;
+      }
+    });
+
+    wanted.forEach((config, id) => {
+      if (!this.instances.has(id)) {
+        this.connect(config);
+      }
+    });
+  }
+
+  get(id: string): HAInstance | undefined {
+    return this.instances.get(id);
+  }
+
+  getDefault(): HAInstance | undefined {
+    return this.instances.get(DEFAULT_INSTANCE_ID);
+  }
+
+  list(): HAInstance[] {
+    return Array.from(this.instances.values());
+  }
+
+  getStatus(): HAInstanceStatus[] {
+    return this.list().map(({ config, service }) => ({
+      id: config.id,
+      name: config.name,
+      url: config.url,
+      status: service.isConnected() ? 'connected' : 'disconnected',
+      stateMirror: service.hasStateMirror(),
+      entityCount: service.getMirroredStates().length
+    }));
+  }
+
+  disconnectAll(): void {
+    Array.from(this.instances.keys()).forEach(id => this.disconnect(id));
+  }
+
+  private connect(config: HAInstanceConfig): void {
+    const service = new HomeAssistantService(config.mode === 'addon'
+      ? { url: config.url, supervisorToken: config.token, mode: 'addon' }
+      : { url: config.url, token: config.token, mode: 'standalone' });
+    const namespace = config.id === DEFAULT_INSTANCE_ID ? undefined : config.id;
+    const cache = this.db ? new EntityCacheService(this.db, namespace) : null;
+    cache?.attach(service);
+
+    const instance: HAInstance = { config, service, cache };
+    this.instances.set(config.id, instance);
+    this.options.onConnect?.(instance);
+
+    // Reconnects are scheduled by the service itself when the socket closes
+    service.connect()
+      .then(() => console.log(`✓ Connected to Home Assistant "${config.name}" at ${config.url}`))
+      .catch((error: any) => console.warn(`⚠ Home Assistant "${config.name}" connection failed: ${error?.message || error}`));
+  }
+
+  private disconnect(id: string): void {
+    const instance = this.instances.get(id);
+    if (!instance) {
+      return;
+    }
+
+    this.options.onDisconnect?.(instance);
+    instance.cache?.close();
+    instance.service.disconnect();
+    this.instances.delete(id);
+  }
+}
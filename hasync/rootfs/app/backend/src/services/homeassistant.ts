@@ -3,16 +3,48 @@
  */
 
 import WebSocket from 'ws';
-import { HAEntity, HAArea, HADashboard, HAConfig } from '../types';
+import { HAEntity, HAArea, HADevice, HAEntityRegistryEntry, HADashboard, HAConfig } from '../types';
+import { HomeAssistantError } from '../errors/AppError';
+
+interface PendingRequest {
+  resolve: (data: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+type RegistryName = 'area' | 'device' | 'entity';
+
+const REGISTRY_NAMES: RegistryName[] = ['area', 'device', 'entity'];
 
 export class HomeAssistantService {
+  private static readonly REQUEST_TIMEOUT_MS = 10000;
+  private static readonly RECONNECT_BASE_DELAY_MS = 1000;
+  private static readonly RECONNECT_MAX_DELAY_MS = 60000;
+
   private config: HAConfig;
   private ws: WebSocket | null = null;
   private messageId = 1;
-  private pendingRequests = new Map<number, (data: any) => void>();
+  private pendingRequests = new Map<number, PendingRequest>();
   private eventHandlers = new Map<string, Set<(data: any) => void>>();
   private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
   private isAuthenticated = false;
+  // Set when HA rejects the token; retrying with it would only be rejected
+  // again, so reconnects wait for an explicit connect()
+  private authRejected = false;
+
+  // In-memory mirror of HA entity states, seeded from get_states and kept
+  // current from state_changed events while the socket is up
+  private states = new Map<string, HAEntity>();
+  private statesLoaded = false;
+
+  // Cached area/device/entity registries, reloaded on *_registry_updated
+  private areas = new Map<string, HAArea>();
+  private devices = new Map<string, HADevice>();
+  private entityRegistry = new Map<string, HAEntityRegistryEntry>();
+  private registryLoads = new Map<RegistryName, Promise<void>>();
+  private staleRegistries = new Set<RegistryName>();
+  private registriesLoaded = false;
 
   constructor(config: HAConfig) {
     this.config = config;
@@ -20,27 +52,39 @@ export class HomeAssistantService {
 
   // Initialize WebSocket connection to HA
   async connect(): Promise<void> {
+    this.authRejected = false;
+
     return new Promise((resolve, reject) => {
-      const wsUrl = this.config.url.replace('http', 'ws') + '/api/websocket';
-      this.ws = new WebSocket(wsUrl);
+      const ws = new WebSocket(this.getWebSocketUrl());
+      this.ws = ws;
 
-      this.ws.on('open', () => {
+      ws.on('open', () => {
         console.log('Connected to Home Assistant WebSocket');
       });
 
-      this.ws.on('message', (data: WebSocket.Data) => {
+      ws.on('message', (data: WebSocket.Data) => {
         const message = JSON.parse(data.toString());
         this.handleMessage(message, resolve, reject);
       });
 
-      this.ws.on('error', (error) => {
+      ws.on('error', (error) => {
         console.error('WebSocket error:', error);
         reject(error);
       });
 
-      this.ws.on('close', () => {
+      ws.on('close', () => {
+        // Ignore sockets we already replaced or closed via disconnect()
+        if (this.ws !== ws) {
+          return;
+        }
         console.log('WebSocket connection closed');
         this.isAuthenticated = false;
+        this.statesLoaded = false;
+        this.rejectPendingRequests(new HomeAssistantError('connection_lost', 'Connection to Home Assistant was lost', 503));
+        if (this.authRejected) {
+          console.log('Not reconnecting to Home Assistant until the token is updated');
+          return;
+        }
         this.scheduleReconnect();
       });
     });
@@ -49,19 +93,29 @@ export class HomeAssistantService {
   private handleMessage(message: any, resolve?: () => void, reject?: (err: Error) => void): void {
     switch (message.type) {
       case 'auth_required':
-        this.authenticate();
+        try {
+          this.authenticate();
+        } catch (error: any) {
+          if (reject) reject(error);
+        }
         break;
 
       case 'auth_ok':
         this.isAuthenticated = true;
+        this.reconnectAttempts = 0;
         console.log('Authenticated with Home Assistant');
         if (resolve) resolve();
         this.subscribeToEvents();
+        this.loadStates();
+        this.loadRegistries().catch(error => {
+          console.error('Failed to load registries:', error.message);
+        });
         break;
 
       case 'auth_invalid':
         console.error('Authentication failed');
-        if (reject) reject(new Error('Authentication failed'));
+        this.authRejected = true;
+        if (reject) reject(new HomeAssistantError('auth_invalid', message.message || 'Authentication failed', 401));
         break;
 
       case 'result':
@@ -77,7 +131,7 @@ export class HomeAssistantService {
   private authenticate(): void {
     const token = this.config.supervisorToken || this.config.token;
     if (!token) {
-      throw new Error('No authentication token provided');
+      throw new HomeAssistantError('auth_invalid', 'No authentication token provided', 401);
     }
 
     this.send({
@@ -88,15 +142,19 @@ export class HomeAssistantService {
 
   private handleResult(message: any): void {
     const { id, success, result, error } = message;
-    const resolver = this.pendingRequests.get(id);
+    const pending = this.pendingRequests.get(id);
 
-    if (resolver) {
+    if (pending) {
       this.pendingRequests.delete(id);
+      clearTimeout(pending.timer);
       if (success) {
-        resolver(result);
+        pending.resolve(result);
       } else {
         console.error('Request failed:', error);
-        resolver(null);
+        pending.reject(new HomeAssistantError(
+          error?.code || 'unknown_error',
+          error?.message || 'Home Assistant request failed'
+        ));
       }
     }
   }
@@ -105,11 +163,19 @@ export class HomeAssistantService {
     const { event } = message;
     const eventType = event.event_type;
 
-    const handlers = this.eventHandlers.get(eventType);
-    if (handlers) {
-      handlers.forEach(handler => handler(event.data));
+    if (eventType === 'state_changed') {
+      this.updateMirror(event.data);
+    } else if (eventType.endsWith('_registry_updated')) {
+      const registry = eventType.replace('_registry_updated', '') as RegistryName;
+      if (REGISTRY_NAMES.includes(registry)) {
+        this.refreshRegistry(registry).catch(error => {
+          console.error(`Failed to refresh ${registry} registry:`, error.message);
+        });
+      }
     }
 
+    this.emit(eventType, event.data);
+
     // Also trigger wildcard handlers
     const wildcardHandlers = this.eventHandlers.get('*');
     if (wildcardHandlers) {
@@ -117,14 +183,112 @@ export class HomeAssistantService {
     }
   }
 
-  // Subscribe to HA state changes
+  private emit(eventType: string, data: any): void {
+    const handlers = this.eventHandlers.get(eventType);
+    if (handlers) {
+      handlers.forEach(handler => handler(data));
+    }
+  }
+
+  // Subscribe to HA state changes and registry updates
   private subscribeToEvents(): void {
-    this.sendRequest({
-      type: 'subscribe_events',
-      event_type: 'state_changed'
+    const eventTypes = ['state_changed', ...REGISTRY_NAMES.map(name => `${name}_registry_updated`)];
+    eventTypes.forEach(eventType => {
+      this.sendRequest({
+        type: 'subscribe_events',
+        event_type: eventType
+      }).catch(error => {
+        console.error(`Failed to subscribe to ${eventType}:`, error.message);
+      });
     });
   }
 
+  // Seed the state mirror with a full snapshot
+  private loadStates(): void {
+    this.sendRequest<HAEntity[]>({ type: 'get_states' }).then((states) => {
+      if (!states) {
+        return;
+      }
+      this.states.clear();
+      states.forEach(state => this.states.set(state.entity_id, state));
+      this.statesLoaded = true;
+      console.log(`State mirror loaded with ${states.length} entities`);
+
+      // Local pseudo-event so consumers can react to a full (re)seed
+      this.emit('states_loaded', states);
+    }).catch(error => {
+      console.error('Failed to load state mirror:', error.message);
+    });
+  }
+
+  // Load all three registries
+  private async loadRegistries(): Promise<void> {
+    // Join loads already in flight rather than queueing another pass
+    await Promise.all(REGISTRY_NAMES.map(name => this.registryLoads.get(name) || this.refreshRegistry(name)));
+    this.registriesLoaded = true;
+    console.log(`Registries loaded: ${this.areas.size} areas, ${this.devices.size} devices, ${this.entityRegistry.size} entities`);
+    this.emit('registries_loaded', null);
+  }
+
+  // Reload one registry. Update events tend to arrive in bursts, so while a
+  // load is in flight further events only mark it for one more pass.
+  private refreshRegistry(name: RegistryName): Promise<void> {
+    const inFlight = this.registryLoads.get(name);
+    if (inFlight) {
+      this.staleRegistries.add(name);
+      return inFlight;
+    }
+
+    const load = this.fetchRegistry(name)
+      .finally(() => this.registryLoads.delete(name))
+      .then(() => {
+        if (this.staleRegistries.delete(name)) {
+          return this.refreshRegistry(name);
+        }
+        // Local pseudo-event so consumers can react to registry changes
+        this.emit('registry_refreshed', { registry: name });
+      }, (error) => {
+        this.staleRegistries.delete(name);
+        throw error;
+      });
+    this.registryLoads.set(name, load);
+    return load;
+  }
+
+  private async fetchRegistry(name: RegistryName): Promise<void> {
+    switch (name) {
+      case 'area': {
+        const areas = await this.sendRequest<HAArea[]>({ type: 'config/area_registry/list' });
+        this.areas = new Map((areas || []).map(area => [area.area_id, area]));
+        break;
+      }
+      case 'device': {
+        const devices = await this.sendRequest<HADevice[]>({ type: 'config/device_registry/list' });
+        this.devices = new Map((devices || []).map(device => [device.id, device]));
+        break;
+      }
+      case 'entity': {
+        const entries = await this.sendRequest<HAEntityRegistryEntry[]>({ type: 'config/entity_registry/list' });
+        this.entityRegistry = new Map((entries || []).map(entry => [entry.entity_id, entry]));
+        break;
+      }
+    }
+  }
+
+  private updateMirror(data: any): void {
+    const { entity_id, new_state } = data || {};
+    if (!entity_id) {
+      return;
+    }
+
+    if (new_state) {
+      this.states.set(entity_id, new_state);
+    } else {
+      // Entity was removed from HA
+      this.states.delete(entity_id);
+    }
+  }
+
   // Send message to HA
   private send(message: any): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
@@ -132,15 +296,35 @@ export class HomeAssistantService {
     }
   }
 
-  // Send request and wait for response
+  // Send request and wait for response, rejecting with HomeAssistantError on
+  // HA errors, timeouts and lost connections
   private sendRequest<T>(message: any): Promise<T> {
-    return new Promise((resolve) => {
+    return new Promise((resolve, reject) => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+        reject(new HomeAssistantError('not_connected', 'Not connected to Home Assistant', 503));
+        return;
+      }
+
       const id = this.messageId++;
-      this.pendingRequests.set(id, resolve);
+      const timeout = this.config.requestTimeout || HomeAssistantService.REQUEST_TIMEOUT_MS;
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        reject(new HomeAssistantError('timeout', `No response to ${message.type} within ${timeout}ms`, 504));
+      }, timeout);
+
+      this.pendingRequests.set(id, { resolve, reject, timer });
       this.send({ ...message, id });
     });
   }
 
+  private rejectPendingRequests(error: HomeAssistantError): void {
+    this.pendingRequests.forEach(pending => {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    });
+    this.pendingRequests.clear();
+  }
+
   // Public API Methods
 
   async getStates(): Promise<HAEntity[]> {
@@ -176,27 +360,95 @@ export class HomeAssistantService {
     });
   }
 
-  // REST API methods (for add-on mode)
+  // Registry methods - served from the cached registries once loaded
   async getAreas(): Promise<HAArea[]> {
-    const response = await fetch(`${this.config.url}/api/config/area_registry/list`, {
-      headers: this.getAuthHeaders()
-    });
-    return response.json();
+    await this.ensureRegistries();
+    return Array.from(this.areas.values());
+  }
+
+  async getDevices(): Promise<HADevice[]> {
+    await this.ensureRegistries();
+    return Array.from(this.devices.values());
+  }
+
+  async getEntityRegistry(): Promise<HAEntityRegistryEntry[]> {
+    await this.ensureRegistries();
+    return Array.from(this.entityRegistry.values());
   }
 
+  /**
+   * Area of an entity: its own area_id if set in the entity registry,
+   * otherwise the area of the device it belongs to
+   */
+  getEntityAreaId(entityId: string): string | null {
+    const entry = this.entityRegistry.get(entityId);
+    if (!entry) {
+      return null;
+    }
+    if (entry.area_id) {
+      return entry.area_id;
+    }
+    if (entry.device_id) {
+      return this.devices.get(entry.device_id)?.area_id || null;
+    }
+    return null;
+  }
+
+  hasRegistries(): boolean {
+    return this.isConnected() && this.registriesLoaded;
+  }
+
+  private async ensureRegistries(): Promise<void> {
+    if (!this.registriesLoaded) {
+      await this.loadRegistries();
+    }
+  }
+
+  // Lovelace - the default dashboard isn't part of the list, its url_path is null
   async getDashboards(): Promise<HADashboard[]> {
-    const response = await fetch(`${this.config.url}/api/lovelace/dashboards`, {
+    return this.sendRequest<HADashboard[]>({
+      type: 'lovelace/dashboards/list'
+    });
+  }
+
+  async getLovelaceConfig(urlPath: string | null): Promise<any> {
+    return this.sendRequest({
+      type: 'lovelace/config',
+      url_path: urlPath,
+      force: false
+    });
+  }
+
+  // REST fallback for when the WebSocket is down
+  async fetchStates(): Promise<HAEntity[]> {
+    const response = await fetch(this.getRestUrl('/states'), {
       headers: this.getAuthHeaders()
     });
-    return response.json();
+
+    if (!response.ok) {
+      throw new Error(`HA API error: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json() as HAEntity[];
+  }
+
+  // State mirror accessors - only meaningful while hasStateMirror() is true
+  getMirroredStates(): HAEntity[] {
+    return Array.from(this.states.values());
+  }
+
+  getMirroredState(entityId: string): HAEntity | null {
+    return this.states.get(entityId) || null;
+  }
+
+  hasStateMirror(): boolean {
+    return this.isConnected() && this.statesLoaded;
   }
 
   async getEntitiesByArea(areaId: string): Promise<HAEntity[]> {
-    const allStates = await this.getStates();
-    // Filter by area - would need device registry integration for proper filtering
-    return allStates.filter(state =>
-      state.attributes.area_id === areaId
-    );
+    await this.ensureRegistries();
+    const allStates = this.hasStateMirror() ? this.getMirroredStates() : await this.getStates();
+    return allStates.filter(state => this.getEntityAreaId(state.entity_id) === areaId);
   }
 
   // Event subscription
@@ -214,18 +466,27 @@ export class HomeAssistantService {
     }
   }
 
-  // Connection management
+  // Connection management - exponential backoff with jitter so a restarting
+  // HA isn't hit by every client at the same instant
   private scheduleReconnect(): void {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
     }
 
+    const ceiling = Math.min(
+      HomeAssistantService.RECONNECT_MAX_DELAY_MS,
+      HomeAssistantService.RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts
+    );
+    const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+    this.reconnectAttempts++;
+
+    console.log(`Reconnecting to Home Assistant in ${delay}ms (attempt ${this.reconnectAttempts})`);
     this.reconnectTimer = setTimeout(() => {
-      console.log('Attempting to reconnect to Home Assistant...');
+      this.reconnectTimer = null;
       this.connect().catch(err => {
-        console.error('Reconnection failed:', err);
+        console.error('Reconnection failed:', err.message);
       });
-    }, 5000);
+    }, delay);
   }
 
   disconnect(): void {
@@ -239,8 +500,10 @@ export class HomeAssistantService {
       this.ws = null;
     }
 
-    this.pendingRequests.clear();
+    this.rejectPendingRequests(new HomeAssistantError('disconnected', 'Home Assistant connection was closed', 503));
+    this.reconnectAttempts = 0;
     this.isAuthenticated = false;
+    this.statesLoaded = false;
   }
 
   isConnected(): boolean {
@@ -250,7 +513,19 @@ export class HomeAssistantService {
   }
 
   // Helper methods
-  private getAuthHeaders(): HeadersInit {
+
+  // The Supervisor proxies the HA websocket at /core/websocket rather than
+  // /core/api/websocket; REST paths are the same in both modes
+  private getWebSocketUrl(): string {
+    const base = this.config.url.replace(/\/+$/, '').replace('http', 'ws');
+    return this.config.mode === 'addon' ? `${base}/websocket` : `${base}/api/websocket`;
+  }
+
+  private getRestUrl(path: string): string {
+    return `${this.config.url.replace(/\/+$/, '')}/api${path}`;
+  }
+
+  private getAuthHeaders(): Record<string, string> {
     const token = this.config.supervisorToken || this.config.token;
     return {
       'Authorization': `Bearer ${token}`,
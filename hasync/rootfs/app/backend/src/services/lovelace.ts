@@ -0,0 +1,206 @@
+/**
+ * Lovelace Sync Service
+ * Pulls Lovelace dashboard configs from Home Assistant and stores them as
+ * HAsync dashboards
+ */
+
+import { DatabaseService } from '../database';
+import { HomeAssistantService } from './homeassistant';
+import { Dashboard, DashboardCard, DashboardView } from '../types';
+import { HomeAssistantError } from '../errors/AppError';
+import { InputSanitizer } from '../utils/database-security';
+import { ENTITY_ID_REGEX } from '../validation/schemas';
+
+// Card type used for Lovelace cards we can't convert; the original card is
+// kept untouched in config.lovelace
+export const OPAQUE_CARD_TYPE = 'opaque';
+
+// HAsync dashboards mirrored from Lovelace use this ID prefix and are
+// overwritten on every sync
+const LOVELACE_ID_PREFIX = 'lovelace_';
+
+const MAX_ID_LENGTH = 100;
+
+// Built-in cards bound to a single `entity`
+const SINGLE_ENTITY_CARDS = new Set([
+  'alarm-panel', 'button', 'entity', 'gauge', 'humidifier', 'light', 'media-control',
+  'picture-entity', 'plant-status', 'sensor', 'statistic', 'thermostat', 'tile', 'weather-forecast'
+]);
+
+// Built-in cards listing `entities`
+const MULTI_ENTITY_CARDS = new Set([
+  'entities', 'glance', 'history-graph', 'logbook', 'map', 'statistics-graph'
+]);
+
+// Built-in cards without entities
+const STATIC_CARDS = new Set(['markdown', 'iframe', 'picture']);
+
+// Cards that only wrap other cards
+const STACK_CARDS = new Set(['vertical-stack', 'horizontal-stack', 'grid']);
+
+export interface LovelaceSyncResult {
+  synced: Dashboard[];
+  skipped: Array<{ urlPath: string | null; reason: string }>;
+}
+
+/**
+ * Convert one Lovelace card. Stacks keep their converted children in
+ * config.cards; anything unrecognised becomes an opaque card.
+ */
+export function convertLovelaceCard(card: any, id: string): DashboardCard {
+  const type = typeof card?.type === 'string' ? card.type : '';
+  const opaque: DashboardCard = { id, type: OPAQUE_CARD_TYPE, config: { lovelace: card } };
+
+  if (SINGLE_ENTITY_CARDS.has(type)) {
+    if (!isEntityId(card.entity)) {
+      return opaque;
+    }
+    const { type: _type, entity, ...config } = card;
+    return withConfig({ id, type, entity }, config);
+  }
+
+  if (MULTI_ENTITY_CARDS.has(type)) {
+    const rows: any[] = Array.isArray(card.entities) ? card.entities : [];
+    // Rows are entity IDs or objects like { entity, name }; dividers and
+    // section rows carry no entity
+    const entities = rows
+      .map(row => (typeof row === 'string' ? row : row?.entity))
+      .filter(entity => entity !== undefined);
+    if (!entities.every(isEntityId)) {
+      return opaque;
+    }
+    const { type: _type, entities: _entities, ...config } = card;
+    const hasRowOptions = rows.some(row => typeof row !== 'string');
+    return withConfig({ id, type, entities }, hasRowOptions ? { ...config, rows } : config);
+  }
+
+  if (STATIC_CARDS.has(type)) {
+    const { type: _type, ...config } = card;
+    return withConfig({ id, type }, config);
+  }
+
+  if (STACK_CARDS.has(type)) {
+    const { type: _type, cards, ...config } = card;
+    const children = (Array.isArray(cards) ? cards : [])
+      .map((child: any, index: number) => convertLovelaceCard(child, childId(id, index)));
+    return { id, type, config: { ...config, cards: children } };
+  }
+
+  return opaque;
+}
+
+/**
+ * Convert a Lovelace view. Section views are flattened into a grid.
+ */
+export function convertLovelaceView(view: any, index: number): DashboardView {
+  const path = typeof view?.path === 'string' ? view.path : '';
+  const id = path ? sanitizeId(path) : `view_${index}`;
+  const title = InputSanitizer.sanitizeString(String(view?.title || path || `View ${index + 1}`), 100);
+
+  let type: DashboardView['type'] = 'masonry';
+  let cards: any[] = Array.isArray(view?.cards) ? view.cards : [];
+
+  if (view?.panel === true || view?.type === 'panel') {
+    type = 'panel';
+  } else if (view?.type === 'sections') {
+    type = 'grid';
+    const sections: any[] = Array.isArray(view.sections) ? view.sections : [];
+    cards = cards.concat(...sections.map(section => (Array.isArray(section?.cards) ? section.cards : [])));
+  }
+
+  return {
+    id,
+    title: title || `View ${index + 1}`,
+    type,
+    cards: cards.map((card, cardIndex) => convertLovelaceCard(card, childId(id, cardIndex)))
+  };
+}
+
+export function convertLovelaceConfig(config: any): DashboardView[] {
+  const views: any[] = Array.isArray(config?.views) ? config.views : [];
+  const converted = views.map((view, index) => convertLovelaceView(view, index));
+
+  // Paths are unique in HA, but sanitizing can make two collide
+  const seen = new Set<string>();
+  converted.forEach((view, index) => {
+    if (seen.has(view.id)) {
+      view.id = `view_${index}`;
+    }
+    seen.add(view.id);
+  });
+
+  return converted;
+}
+
+export class LovelaceSyncService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Import every Lovelace dashboard. Mirrored dashboards that no longer
+   * exist in HA are removed; dashboards created in HAsync are left alone.
+   */
+  async sync(haService: HomeAssistantService, ownerId: string): Promise<LovelaceSyncResult> {
+    const haDashboards = await haService.getDashboards();
+    const sources: Array<{ urlPath: string | null; title: string }> = [
+      { urlPath: null, title: 'Overview' },
+      ...(haDashboards || []).map(dashboard => ({ urlPath: dashboard.url_path, title: dashboard.title }))
+    ];
+
+    const result: LovelaceSyncResult = { synced: [], skipped: [] };
+    const syncedIds = new Set<string>();
+
+    for (const source of sources) {
+      const id = `${LOVELACE_ID_PREFIX}${sanitizeId(source.urlPath || 'default')}`;
+
+      let config: any;
+      try {
+        config = await haService.getLovelaceConfig(source.urlPath);
+      } catch (error: any) {
+        // Auto-generated dashboards have no stored config to import
+        if (error instanceof HomeAssistantError && error.code === 'config_not_found') {
+          result.skipped.push({ urlPath: source.urlPath, reason: 'auto-generated' });
+          continue;
+        }
+        throw error;
+      }
+
+      if (config?.strategy) {
+        result.skipped.push({ urlPath: source.urlPath, reason: 'strategy' });
+        continue;
+      }
+
+      const name = InputSanitizer.sanitizeString(String(config?.title || source.title || 'Home Assistant'), 100);
+      const views = convertLovelaceConfig(config);
+
+      if (this.db.getDashboard(id)) {
+        this.db.updateDashboard(id, { name, views });
+      } else {
+        this.db.createDashboard({ name, views }, ownerId, id);
+      }
+      syncedIds.add(id);
+      result.synced.push(this.db.getDashboard(id)!);
+    }
+
+    this.db.getAllDashboards()
+      .filter(dashboard => dashboard.id.startsWith(LOVELACE_ID_PREFIX) && !syncedIds.has(dashboard.id))
+      .forEach(dashboard => this.db.deleteDashboard(dashboard.id));
+
+    return result;
+  }
+}
+
+function withConfig(card: DashboardCard, config: Record<string, any>): DashboardCard {
+  return Object.keys(config).length > 0 ? { ...card, config } : card;
+}
+
+function isEntityId(value: any): boolean {
+  return typeof value === 'string' && ENTITY_ID_REGEX.test(value);
+}
+
+function sanitizeId(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, MAX_ID_LENGTH);
+}
+
+function childId(parentId: string, index: number): string {
+  return `${parentId}_${index}`.substring(0, MAX_ID_LENGTH);
+}
@@ -0,0 +1,51 @@
+/**
+ * Pairing QR Codes
+ * Encodes everything a device needs to pair in a hasync:// URI, so it can
+ * be scanned instead of typing the server URL and PIN. With TLS enabled the
+ * URI carries the server certificate's SHA-256 fingerprint for pinning.
+ */
+
+import QRCode from 'qrcode';
+
+export interface PairingUriParams {
+  serverUrl: string;
+  sessionId: string;
+  pin: string;
+  // Colon-separated SHA-256 fingerprint of the server certificate
+  fingerprint?: string;
+}
+
+export interface PairingQRCode {
+  uri: string;
+  svg: string;
+  pngDataUrl: string;
+}
+
+/**
+ * hasync://pair?server=...&session=...&pin=...[&fingerprint=sha256:...]
+ */
+export function buildPairingUri(params: PairingUriParams): string {
+  const query = new URLSearchParams({
+    server: params.serverUrl,
+    session: params.sessionId,
+    pin: params.pin
+  });
+  if (params.fingerprint) {
+    query.set('fingerprint', `sha256:${params.fingerprint}`);
+  }
+
+  return `hasync://pair?${query.toString()}`;
+}
+
+export async function createPairingQRCode(params: PairingUriParams): Promise<PairingQRCode> {
+  const uri = buildPairingUri(params);
+  // Medium error correction keeps the code small enough for tablet cameras
+  const options = { errorCorrectionLevel: 'M' as const, margin: 2 };
+
+  const [svg, pngDataUrl] = await Promise.all([
+    QRCode.toString(uri, { ...options, type: 'svg' }),
+    QRCode.toDataURL(uri, { ...options, width: 256 })
+  ]);
+
+  return { uri, svg, pngDataUrl };
+}
@@ -4,15 +4,20 @@
 
 import crypto from 'crypto';
 import { DatabaseService } from '../database';
-import { PairingRequest, PairingSession, Client, ValidationError } from '../types';
+import { CertificateAuthority, IssuedCertificate } from './certificate-authority';
+import { PairingRequest, PairingSession, PairingApprovalRequest, Client, ClientUpdate } from '../types';
+import { ValidationError, NotFoundError, ForbiddenError } from '../errors/AppError';
 
 export class PairingService {
   private static readonly PIN_LENGTH = 6;
   private static readonly PIN_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes
+  // For an admin to decide, and afterwards for the device to collect
+  private static readonly APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
 
-  constructor(private db: DatabaseService) {
+  constructor(private db: DatabaseService, private ca: CertificateAuthority) {
     // Clean expired sessions periodically
     setInterval(() => {
+      this.expirePendingApprovals();
       const cleaned = this.db.cleanExpiredPairingSessions();
       if (cleaned > 0) {
         console.log(`Cleaned ${cleaned} expired pairing sessions`);
@@ -30,77 +35,212 @@ export class PairingService {
     return this.db.createPairingSession(pin, expiresAt);
   }
 
+  /**
+   * Get a pairing session, used or not, until it is cleaned up
+   */
+  getPairingSession(sessionId: string): PairingSession | null {
+    return this.db.getPairingSessionById(sessionId);
+  }
+
+  /**
+   * Cancel an unused pairing session
+   */
+  cancelPairing(sessionId: string): boolean {
+    const success = this.db.deletePairingSession(sessionId);
+    if (success) {
+      this.db.logActivity(null, 'pairing_cancelled', `Session: ${sessionId}`);
+    }
+    return success;
+  }
+
   /**
    * Verify PIN and complete pairing
+   * @param sessionId When given, the PIN must belong to this session
    */
-  async completePairing(request: PairingRequest): Promise<Client> {
-    // Validate PIN
-    const session = this.db.getPairingSession(request.pin);
-    if (!session) {
+  async completePairing(request: PairingRequest, sessionId?: string): Promise<Client> {
+    const session = this.validatePin(request.pin, sessionId);
+
+    // X.509 certificate from the CA for the submitted key or CSR
+    const issued = await this.ca.issueClientCertificate({
+      commonName: request.device_name,
+      publicKey: request.public_key,
+      csr: request.csr
+    });
+
+    // Checked again: another request may have used the PIN while signing
+    this.validatePin(request.pin, session.id);
+    this.assertNotPaired(issued.publicKey);
+
+    return this.provisionClient(session.id, request.device_name, request.device_type, issued);
+  }
+
+  /**
+   * Approval mode: verify PIN and key, then hold the request in
+   * pending_approval until an admin approves or rejects it
+   */
+  async requestApproval(request: PairingRequest, sessionId: string, ipAddress?: string): Promise<PairingSession> {
+    this.validatePin(request.pin, sessionId);
+
+    const publicKey = await this.ca.getRequestPublicKey({ publicKey: request.public_key, csr: request.csr });
+    this.assertNotPaired(publicKey);
+
+    const approvalRequest: PairingApprovalRequest = {
+      device_name: request.device_name,
+      device_type: request.device_type,
+      public_key: publicKey,
+      ip_address: ipAddress,
+      requested_at: Date.now()
+    };
+    // Fails if the session was used or requested while the key was checked
+    const expiresAt = approvalRequest.requested_at + PairingService.APPROVAL_TIMEOUT_MS;
+    if (!this.db.requestPairingApproval(sessionId, approvalRequest, expiresAt)) {
       throw new ValidationError('Invalid or expired PIN');
     }
 
-    if (Date.now() > session.expires_at) {
-      throw new ValidationError('PIN has expired');
+    this.db.logActivity(null, 'pairing_requested', this.describeRequest(approvalRequest), ipAddress);
+    return this.db.getPairingSessionById(sessionId)!;
+  }
+
+  /**
+   * Outcome of a request for approval, for the device that sent it: the
+   * same PIN and key are required
+   * @returns the client once approved, null while still pending
+   */
+  async getApprovalResult(request: PairingRequest, sessionId: string): Promise<Client | null> {
+    const publicKey = await this.ca.getRequestPublicKey({ publicKey: request.public_key, csr: request.csr });
+
+    const session = this.db.getPairingSessionById(sessionId);
+    if (!session?.request || session.pin !== request.pin || session.request.public_key !== publicKey) {
+      throw new ValidationError('Invalid or expired PIN');
     }
 
-    // Check if public key already exists
-    const existingClient = this.db.getClientByPublicKey(request.public_key);
-    if (existingClient) {
-      throw new ValidationError('Client already paired');
+    switch (session.approval_status) {
+      case 'approved':
+        return this.db.getClient(session.client_id!);
+      case 'rejected':
+        throw new ForbiddenError('Pairing request was rejected');
+      case 'pending_approval':
+        if (Date.now() <= session.expires_at) {
+          return null;
+        }
+        this.timeOutApproval(session);
+        throw new ValidationError('Pairing request timed out');
+      default:
+        throw new ValidationError('Pairing request timed out');
     }
+  }
 
-    // Generate server certificate for client
-    const certificate = this.generateCertificate(request.public_key);
+  /**
+   * Approve a pending request, creating the client and its certificate
+   */
+  async approvePairing(sessionId: string): Promise<Client> {
+    const session = this.getPendingApproval(sessionId);
+    const request = session.request!;
 
-    // Create client record
-    const client = this.db.createClient({
-      name: request.device_name,
-      device_type: request.device_type,
-      public_key: request.public_key,
-      certificate,
-      paired_at: Date.now(),
-      last_seen: Date.now(),
-      is_active: true,
-      metadata: {}
+    const issued = await this.ca.issueClientCertificate({
+      commonName: request.device_name,
+      publicKey: request.public_key
     });
 
-    // Mark PIN as used
-    this.db.markPairingSessionUsed(request.pin);
-
-    // Log activity
-    this.db.logActivity(client.id, 'pairing_completed', `Device: ${request.device_name}`);
+    this.assertNotPaired(issued.publicKey);
+    // Another admin may have decided while signing. Kept for a while so the
+    // device can collect its certificate
+    const expiresAt = Date.now() + PairingService.APPROVAL_TIMEOUT_MS;
+    if (!this.db.updatePairingApprovalStatus(sessionId, 'pending_approval', 'approved', expiresAt)) {
+      throw new ValidationError('Pairing request is no longer pending');
+    }
 
+    const client = this.provisionClient(session.id, request.device_name, request.device_type, issued);
+    this.db.logActivity(client.id, 'pairing_approved', this.describeRequest(request), request.ip_address);
     return client;
   }
 
+  /**
+   * Reject a pending request; the device learns it when it asks again
+   */
+  rejectPairing(sessionId: string): void {
+    const session = this.getPendingApproval(sessionId);
+    if (!this.db.updatePairingApprovalStatus(sessionId, 'pending_approval', 'rejected')) {
+      throw new ValidationError('Pairing request is no longer pending');
+    }
+
+    this.db.logActivity(null, 'pairing_rejected', this.describeRequest(session.request!), session.request!.ip_address);
+  }
+
   /**
    * Verify client certificate for authentication
    */
   verifyClientCertificate(clientId: string, certificate: string): boolean {
     const client = this.db.getClient(clientId);
-    if (!client || !client.is_active) {
+    if (!client || !this.isClientAllowed(client)) {
       return false;
     }
 
     // Constant-time comparison to prevent timing attacks
-    return crypto.timingSafeEqual(
-      Buffer.from(client.certificate),
-      Buffer.from(certificate)
-    );
+    const expected = Buffer.from(client.certificate);
+    const presented = Buffer.from(certificate);
+    return expected.length === presented.length && crypto.timingSafeEqual(expected, presented);
+  }
+
+  /**
+   * Verify a challenge signed with the private key of the client's paired
+   * public key
+   * @param signature Base64; ECDSA signatures in DER or raw r||s form
+   */
+  verifyClientSignature(clientId: string, challenge: string, signature: string): boolean {
+    const client = this.db.getClient(clientId);
+    if (!client || !this.isClientAllowed(client)) {
+      return false;
+    }
+
+    let key: crypto.KeyObject;
+    try {
+      key = crypto.createPublicKey(client.public_key);
+    } catch (error) {
+      return false;
+    }
+
+    // EdDSA hashes internally, RSA and ECDSA sign a SHA-256 digest
+    const algorithm = key.asymmetricKeyType === 'ed25519' || key.asymmetricKeyType === 'ed448' ? null : 'sha256';
+    // WebCrypto produces raw r||s, OpenSSL and most native libraries DER
+    const encodings: Array<'der' | 'ieee-p1363' | undefined> = key.asymmetricKeyType === 'ec'
+      ? ['der', 'ieee-p1363']
+      : [undefined];
+    const data = Buffer.from(challenge);
+    const signatureBytes = Buffer.from(signature, 'base64');
+
+    return encodings.some(dsaEncoding => {
+      try {
+        return crypto.verify(algorithm, data, { key, dsaEncoding }, signatureBytes);
+      } catch (error) {
+        return false;
+      }
+    });
   }
 
   /**
-   * Revoke client access
+   * Revoke client access; its certificate goes on the CRL
    */
   revokeClient(clientId: string): boolean {
+    const client = this.db.getClient(clientId);
     const success = this.db.updateClient(clientId, { is_active: false });
     if (success) {
+      this.revokeCertificate(client!, 'revoked');
       this.db.logActivity(clientId, 'client_revoked', 'Access revoked by admin');
     }
     return success;
   }
 
+  /**
+   * Current CRL of the client CA
+   */
+  getCertificateRevocationList(): Promise<string> {
+    return this.ca.createCrl(this.db.getRevokedCertificates().map(revoked => ({
+      serialNumber: revoked.serial_number,
+      revokedAt: revoked.revoked_at
+    })));
+  }
+
   /**
    * Update client last seen timestamp
    */
@@ -122,6 +262,30 @@ export class PairingService {
     return this.db.getClient(clientId);
   }
 
+  /**
+   * Update client name, device type and area/dashboard assignment
+   */
+  updateClient(clientId: string, updates: ClientUpdate): Client | null {
+    const client = this.db.getClient(clientId);
+    if (!client) {
+      return null;
+    }
+
+    const metadata = { ...client.metadata };
+    if (updates.assigned_areas !== undefined) {
+      metadata.assigned_areas = updates.assigned_areas;
+    }
+    if (updates.assigned_dashboard) {
+      metadata.assigned_dashboard = updates.assigned_dashboard;
+    } else if (updates.assigned_dashboard === null) {
+      delete metadata.assigned_dashboard;
+    }
+
+    this.db.updateClient(clientId, { name: updates.name, device_type: updates.device_type, metadata });
+    this.db.logActivity(clientId, 'client_updated', `Client: ${updates.name || client.name}`);
+    return this.db.getClient(clientId);
+  }
+
   /**
    * Delete client
    */
@@ -133,6 +297,8 @@ export class PairingService {
 
     const success = this.db.deleteClient(clientId);
     if (success) {
+      // Its certificate would otherwise stay valid
+      this.revokeCertificate(client, 'deleted');
       this.db.logActivity(clientId, 'client_deleted', `Client: ${client.name}`);
     }
     return success;
@@ -140,21 +306,97 @@ export class PairingService {
 
   // Private helper methods
 
-  private generateRandomPin(): string {
-    let pin = '';
-    for (let i = 0; i < PairingService.PIN_LENGTH; i++) {
-      pin += Math.floor(Math.random() * 10);
+  private validatePin(pin: string, sessionId?: string): PairingSession {
+    const session = this.db.getPairingSession(pin);
+    // Sessions with a request go through approval instead
+    if (!session || (sessionId && session.id !== sessionId) || session.approval_status) {
+      throw new ValidationError('Invalid or expired PIN');
+    }
+
+    if (Date.now() > session.expires_at) {
+      throw new ValidationError('PIN has expired');
+    }
+
+    return session;
+  }
+
+  private assertNotPaired(publicKey: string): void {
+    if (this.db.getClientByPublicKey(publicKey)) {
+      throw new ValidationError('Client already paired');
     }
-    return pin;
   }
 
-  private generateCertificate(publicKey: string): string {
-    // Generate a certificate by signing the public key with server's private key
-    // In production, this should use proper X.509 certificates
-    const hash = crypto.createHash('sha256');
-    hash.update(publicKey);
-    hash.update(Date.now().toString());
-    hash.update(crypto.randomBytes(32));
-    return hash.digest('hex');
+  private provisionClient(sessionId: string, deviceName: string, deviceType: string, issued: IssuedCertificate): Client {
+    const client = this.db.createClient({
+      name: deviceName,
+      device_type: deviceType,
+      public_key: issued.publicKey,
+      certificate: issued.certificate,
+      certificate_serial: issued.serialNumber,
+      certificate_expires_at: issued.expiresAt,
+      paired_at: Date.now(),
+      last_seen: Date.now(),
+      is_active: true,
+      metadata: {}
+    });
+
+    // Mark the session used; older sessions may have had the same PIN
+    this.db.markPairingSessionUsed(sessionId, client.id);
+
+    this.db.logActivity(client.id, 'pairing_completed', `Device: ${deviceName}`);
+    return client;
+  }
+
+  private getPendingApproval(sessionId: string): PairingSession {
+    const session = this.db.getPairingSessionById(sessionId);
+    if (!session) {
+      throw new NotFoundError('Pairing session');
+    }
+    if (session.approval_status !== 'pending_approval') {
+      throw new ValidationError('Pairing session has no request awaiting approval');
+    }
+    if (Date.now() > session.expires_at) {
+      this.timeOutApproval(session);
+      throw new ValidationError('Pairing request timed out');
+    }
+    return session;
+  }
+
+  // Logged once, whether noticed by the cleanup or a late decision
+  private timeOutApproval(session: PairingSession): void {
+    if (this.db.updatePairingApprovalStatus(session.id, 'pending_approval', 'timed_out')) {
+      this.db.logActivity(null, 'pairing_timeout', this.describeRequest(session.request!), session.request!.ip_address);
+    }
+  }
+
+  // Before expired sessions are cleaned up with their requests
+  private expirePendingApprovals(): void {
+    this.db.getExpiredPairingApprovals().forEach(session => this.timeOutApproval(session));
+  }
+
+  private describeRequest(request: PairingApprovalRequest): string {
+    return `Device: ${request.device_name} (${request.device_type})`;
+  }
+
+  // Active, and its certificate neither revoked nor expired
+  private isClientAllowed(client: Client): boolean {
+    if (!client.is_active) {
+      return false;
+    }
+    if (client.certificate_serial && this.db.isCertificateRevoked(client.certificate_serial)) {
+      return false;
+    }
+    return !client.certificate_expires_at || Date.now() <= client.certificate_expires_at;
+  }
+
+  // Clients paired before the CA have no serial to revoke
+  private revokeCertificate(client: Client, reason: string): void {
+    if (client.certificate_serial) {
+      this.db.revokeCertificate(client.certificate_serial, client.id, reason);
+    }
+  }
+
+  private generateRandomPin(): string {
+    return crypto.randomInt(0, 10 ** PairingService.PIN_LENGTH).toString().padStart(PairingService.PIN_LENGTH, '0');
   }
 }
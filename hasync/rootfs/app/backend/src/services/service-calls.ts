@@ -0,0 +1,128 @@
+/**
+ * Realtime Service Calls
+ * Runs Home Assistant service calls requested over Socket.IO on behalf of
+ * a user, limited to the domains the user's role may control. Targets use
+ * API entity IDs; the instance is taken from their namespace.
+ */
+
+import { HAInstanceManager, DEFAULT_INSTANCE_ID } from './ha-instances';
+import { AppError, ForbiddenError, NotFoundError, ValidationError, HomeAssistantError } from '../errors/AppError';
+
+export interface ServiceCallRequest {
+  domain: string;
+  service: string;
+  service_data?: Record<string, any>;
+  target?: {
+    entity_id?: string | string[];
+    area_id?: string | string[];
+    device_id?: string | string[];
+  };
+  // Needed only for targets without entity IDs on another instance
+  instance_id?: string;
+}
+
+export interface ServiceCallError {
+  // validation_error, forbidden, not_found, or HA's error code
+  code: string;
+  message: string;
+}
+
+export type ServiceCallResponse =
+  | { success: true; result: any }
+  | { success: false; error: ServiceCallError };
+
+// Domains that only change device state; admins additionally control
+// security-relevant and automation domains
+const DEVICE_DOMAINS = [
+  'light', 'switch', 'fan', 'cover', 'climate', 'media_player', 'scene',
+  'input_boolean', 'input_number', 'input_select', 'input_button', 'button',
+  'number', 'select', 'vacuum', 'humidifier', 'water_heater'
+];
+
+export const SERVICE_CALL_DOMAINS: Record<string, string[]> = {
+  admin: [...DEVICE_DOMAINS, 'lock', 'alarm_control_panel', 'script', 'automation'],
+  user: DEVICE_DOMAINS
+};
+
+/**
+ * Domains a role may call services in. SERVICE_CALL_DOMAINS
+ * (comma-separated) narrows the list for every role.
+ */
+export function getAllowedServiceDomains(role: string | undefined, env: NodeJS.ProcessEnv = process.env): string[] {
+  const domains = SERVICE_CALL_DOMAINS[role || ''] || [];
+  if (!env.SERVICE_CALL_DOMAINS) {
+    return domains;
+  }
+
+  const configured = env.SERVICE_CALL_DOMAINS.split(',').map(domain => domain.trim());
+  return domains.filter(domain => configured.includes(domain));
+}
+
+/**
+ * Call a service as a user with the given role
+ * @throws ForbiddenError, ValidationError, NotFoundError or HomeAssistantError
+ */
+export async function callServiceAs(
+  haInstances: HAInstanceManager,
+  role: string | undefined,
+  request: ServiceCallRequest
+): Promise<any> {
+  if (!getAllowedServiceDomains(role).includes(request.domain)) {
+    throw new ForbiddenError(`Role "${role || 'none'}" may not call ${request.domain} services`);
+  }
+
+  const { instanceId, target } = resolveTarget(request);
+  const instance = haInstances.get(instanceId);
+  if (!instance) {
+    throw new NotFoundError(`Home Assistant instance "${instanceId}"`);
+  }
+
+  return instance.service.callService(request.domain, request.service, request.service_data, target);
+}
+
+/**
+ * Typed error for the acknowledgement of a failed call
+ */
+export function toServiceCallError(error: any): ServiceCallError {
+  if (error instanceof HomeAssistantError) {
+    return { code: error.code, message: error.message };
+  }
+  if (error instanceof ForbiddenError) {
+    return { code: 'forbidden', message: error.message };
+  }
+  if (error instanceof NotFoundError) {
+    return { code: 'not_found', message: error.message };
+  }
+  if (error instanceof ValidationError) {
+    return { code: 'validation_error', message: error.message };
+  }
+  if (error instanceof AppError) {
+    return { code: 'error', message: error.message };
+  }
+  return { code: 'internal_error', message: 'Service call failed' };
+}
+
+// Strip instance namespaces from target entity IDs; all must share one
+function resolveTarget(request: ServiceCallRequest): { instanceId: string; target?: ServiceCallRequest['target'] } {
+  const entityIds = request.target?.entity_id === undefined
+    ? []
+    : ([] as string[]).concat(request.target.entity_id);
+
+  if (entityIds.length === 0) {
+    return { instanceId: request.instance_id || DEFAULT_INSTANCE_ID, target: request.target };
+  }
+
+  const parsed = entityIds.map(HAInstanceManager.parseEntityId);
+  const instanceId = parsed[0].instanceId;
+  if (parsed.some(entity => entity.instanceId !== instanceId)) {
+    throw new ValidationError('Target entities must belong to one Home Assistant instance');
+  }
+  if (request.instance_id && request.instance_id !== instanceId) {
+    throw new ValidationError('Target entities do not belong to the given instance');
+  }
+
+  return {
+    instanceId,
+    target: { ...request.target, entity_id: parsed.map(entity => entity.entityId) }
+  };
+}
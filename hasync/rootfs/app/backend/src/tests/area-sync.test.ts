@@ -0,0 +1,119 @@
+/**
+ * Area Sync Tests
+ */
+
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DatabaseService } from '../database';
+import { AreaSyncService } from '../services/area-sync';
+import { createFakeHAService } from './helpers/home-assistant';
+
+// HA's registries, changed by the tests between syncs
+const createRegistries = () => {
+  const registries = {
+    areas: [
+      { area_id: 'kitchen', name: 'Kitchen' },
+      { area_id: 'office', name: 'Office' }
+    ],
+    entityAreas: {
+      'light.kitchen': 'kitchen',
+      'sensor.kitchen_temp': 'kitchen',
+      'light.desk': 'office'
+    } as Record<string, string>
+  };
+  const ha = createFakeHAService({
+    hasRegistries: () => true,
+    getAreas: async () => registries.areas,
+    getEntityRegistry: async () => Object.keys(registries.entityAreas).map(entityId => ({
+      entity_id: entityId,
+      device_id: null,
+      area_id: registries.entityAreas[entityId],
+      platform: 'test'
+    })),
+    getEntityAreaId: (entityId: string) => registries.entityAreas[entityId] || null
+  });
+  return { ...registries, service: ha };
+};
+
+describe('AreaSyncService', () => {
+  let db: Database.Database;
+  let database: DatabaseService;
+  let ha: ReturnType<typeof createRegistries>;
+  let areaSync: AreaSyncService;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(readFileSync(join(__dirname, '..', 'database', 'schema.sql'), 'utf8'));
+    database = new DatabaseService(db);
+    ha = createRegistries();
+    areaSync = new AreaSyncService(database);
+    areaSync.attach(ha.service);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('imports HA areas with their entities and skips ones already imported', async () => {
+    const first = await areaSync.importAreas({ linked: true });
+
+    expect(first.imported).toHaveLength(2);
+    const kitchen = first.imported.find(area => area.haAreaId === 'kitchen')!;
+    expect(kitchen.id).toMatch(/^area_\d+$/);
+    expect(kitchen.name).toBe('Kitchen');
+    expect(kitchen.entityIds).toEqual(['light.kitchen', 'sensor.kitchen_temp']);
+
+    const second = await areaSync.importAreas({ haAreaIds: ['kitchen', 'garage'] });
+    expect(second.imported).toHaveLength(0);
+    expect(second.skipped).toEqual([
+      { haAreaId: 'kitchen', reason: 'already_imported' },
+      { haAreaId: 'garage', reason: 'not_found' }
+    ]);
+  });
+
+  it('records HA changes to linked areas and keeps custom order on accept', async () => {
+    const { imported } = await areaSync.importAreas({ haAreaIds: ['kitchen'], linked: true });
+    const areaId = imported[0].id;
+    database.updateArea(areaId, { entityIds: ['sensor.kitchen_temp', 'light.kitchen'] });
+
+    ha.entityAreas['switch.kettle'] = 'kitchen';
+    delete ha.entityAreas['light.kitchen'];
+    ha.areas[0].name = 'Kitchen Downstairs';
+
+    expect(await areaSync.detectChanges()).toBe(1);
+    expect(areaSync.getLink(areaId).pendingDiff).toEqual({
+      added: ['switch.kettle'],
+      removed: ['light.kitchen'],
+      name: { from: 'Kitchen', to: 'Kitchen Downstairs' }
+    });
+
+    const area = areaSync.acceptChanges(areaId);
+    expect(area.entityIds).toEqual(['sensor.kitchen_temp', 'switch.kettle']);
+    expect(area.name).toBe('Kitchen Downstairs');
+
+    expect(await areaSync.detectChanges()).toBe(0);
+    expect(areaSync.getLink(areaId).pendingDiff).toBeNull();
+  });
+
+  it('leaves the area untouched when changes are rejected', async () => {
+    const { imported } = await areaSync.importAreas({ haAreaIds: ['office'], linked: true });
+    const areaId = imported[0].id;
+
+    ha.entityAreas['light.lamp'] = 'office';
+    await areaSync.detectChanges();
+
+    areaSync.rejectChanges(areaId);
+
+    expect(database.getArea(areaId)!.entityIds).toEqual(['light.desk']);
+    expect(await areaSync.detectChanges()).toBe(0);
+    expect(() => areaSync.rejectChanges(areaId)).toThrow('No pending Home Assistant changes');
+  });
+
+  it('does not track changes for areas imported without linking', async () => {
+    await areaSync.importAreas({ haAreaIds: ['office'] });
+    ha.entityAreas['light.lamp'] = 'office';
+
+    expect(await areaSync.detectChanges()).toBe(0);
+  });
+});
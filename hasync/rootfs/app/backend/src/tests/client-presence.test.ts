@@ -0,0 +1,48 @@
+/**
+ * Client Presence Tracker Tests
+ */
+
+import { ClientPresenceTracker } from '../services/client-presence';
+
+describe('ClientPresenceTracker', () => {
+  const touch = jest.fn();
+  let presence: ClientPresenceTracker;
+
+  beforeEach(() => {
+    touch.mockClear();
+    presence = new ClientPresenceTracker(touch);
+  });
+
+  it('is online while any connection of a client is open', () => {
+    const connected = jest.fn();
+    const disconnected = jest.fn();
+    presence.on('client_connected', connected);
+    presence.on('client_disconnected', disconnected);
+
+    presence.connect('client_1', 'conn_a', { transport: 'ws', ipAddress: '192.168.1.20' });
+    presence.connect('client_1', 'conn_b', { transport: 'ws' });
+    expect(connected).toHaveBeenCalledTimes(1);
+    expect(connected).toHaveBeenCalledWith('client_1', expect.objectContaining({ connectionId: 'conn_a' }));
+
+    presence.disconnect('client_1', 'conn_a');
+    expect(disconnected).not.toHaveBeenCalled();
+    expect(presence.getPresence('client_1')).toEqual({
+      status: 'online',
+      connections: [expect.objectContaining({ connectionId: 'conn_b', transport: 'ws' })]
+    });
+
+    presence.disconnect('client_1', 'conn_b');
+    expect(disconnected).toHaveBeenCalledWith('client_1', expect.objectContaining({ connectionId: 'conn_b' }));
+    expect(presence.getPresence('client_1')).toEqual({ status: 'offline', connections: [] });
+    expect(presence.getOnlineCount()).toBe(0);
+  });
+
+  it('updates last seen on connect and heartbeat of known connections', () => {
+    presence.connect('client_1', 'conn_a', { transport: 'ws' });
+    presence.heartbeat('client_1', 'conn_a');
+    presence.heartbeat('client_1', 'unknown');
+
+    expect(touch).toHaveBeenCalledTimes(2);
+    expect(touch).toHaveBeenCalledWith('client_1');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Configuration Secret Store Tests
+ */
+
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, writeFileSync, existsSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigSecretStore, maskSecret } from '../services/config-secrets';
+
+describe('ConfigSecretStore', () => {
+  let db: Database.Database;
+  let dir: string;
+  let secretPath: string;
+
+  const rawValue = (key: string): string =>
+    (db.prepare('SELECT value FROM configuration WHERE key = ?').get(key) as any).value;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    db = new Database(':memory:');
+    db.exec(readFileSync(join(__dirname, '..', 'database', 'schema.sql'), 'utf8'));
+    dir = mkdtempSync(join(tmpdir(), 'hasync-secrets-'));
+    secretPath = join(dir, 'server_secret');
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('encrypts secret keys at rest and leaves other keys readable', () => {
+    const store = new ConfigSecretStore(db, secretPath);
+    const haConfig = JSON.stringify({ url: 'http://ha.local:8123', token: 'long_lived_token_value' });
+
+    store.set('ha_config', haConfig);
+    store.set('theme', 'dark');
+
+    expect(existsSync(secretPath)).toBe(true);
+    expect(rawValue('ha_config')).toMatch(/^enc:v1:/);
+    expect(rawValue('ha_config')).not.toContain('long_lived_token_value');
+    expect(rawValue('theme')).toBe('dark');
+    expect(store.get('ha_config')).toBe(haConfig);
+
+    // Same secret file, same key
+    expect(new ConfigSecretStore(db, secretPath).get('ha_config')).toBe(haConfig);
+  });
+
+  it('encrypts plaintext rows left by older versions', () => {
+    db.prepare('INSERT INTO configuration (key, value) VALUES (?, ?)').run('ha_instances', '[]');
+    const store = new ConfigSecretStore(db, secretPath);
+
+    expect(store.encryptPlaintext()).toBe(1);
+    expect(rawValue('ha_instances')).toMatch(/^enc:v1:/);
+    expect(store.get('ha_instances')).toBe('[]');
+  });
+
+  it('re-keys with a new server secret', () => {
+    const store = new ConfigSecretStore(db, secretPath);
+    store.set('ha_config', '{"token":"abc"}');
+    const oldSecret = readFileSync(secretPath, 'utf8');
+    const oldKeyId = store.getKeyId();
+
+    expect(store.rekey()).toBe(1);
+
+    expect(store.getKeyId()).not.toBe(oldKeyId);
+    expect(readFileSync(secretPath, 'utf8')).not.toBe(oldSecret);
+    expect(rawValue('ha_config')).toContain(`enc:v1:${store.getKeyId()}:`);
+    expect(new ConfigSecretStore(db, secretPath).get('ha_config')).toBe('{"token":"abc"}');
+  });
+
+  it('finishes an interrupted re-key on load', () => {
+    new ConfigSecretStore(db, secretPath).set('ha_config', '{"token":"abc"}');
+    writeFileSync(`${secretPath}.new`, 'f'.repeat(64));
+
+    const store = new ConfigSecretStore(db, secretPath);
+
+    expect(existsSync(`${secretPath}.new`)).toBe(false);
+    expect(readFileSync(secretPath, 'utf8')).toBe('f'.repeat(64));
+    expect(store.get('ha_config')).toBe('{"token":"abc"}');
+  });
+
+  it('masks secrets down to their last four characters', () => {
+    expect(maskSecret('long_lived_token_value')).toBe('********alue');
+    expect(maskSecret('short')).toBe('********');
+    expect(maskSecret(undefined)).toBeNull();
+  });
+});
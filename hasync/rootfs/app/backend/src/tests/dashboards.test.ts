@@ -0,0 +1,122 @@
+/**
+ * Dashboard Routes Tests
+ */
+
+import express from 'express';
+import request from 'supertest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DatabaseService } from '../database';
+import { createDashboardRouter } from '../routes/dashboards';
+import { errorHandler } from '../middleware/errorHandler';
+
+const livingRoomView = {
+  id: 'living_room',
+  title: 'Living Room',
+  type: 'grid',
+  cards: [
+    { id: 'card_1', type: 'entities', entities: ['light.living_room', 'switch.tv'] },
+    { id: 'card_2', type: 'custom:mushroom-light-card', entity: 'light.living_room', config: { fill_container: true } }
+  ]
+};
+
+describe('Dashboard routes', () => {
+  let db: Database.Database;
+  let database: DatabaseService;
+  let app: express.Express;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.pragma('foreign_keys = ON');
+    db.exec(readFileSync(join(__dirname, '..', 'database', 'schema.sql'), 'utf8'));
+    database = new DatabaseService(db);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/dashboards', createDashboardRouter(database, {
+      getOwnerId: () => database.ensureUser('admin', 'admin')
+    }));
+    app.use(errorHandler);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('creates a dashboard and returns its views and cards', async () => {
+    const created = await request(app)
+      .post('/api/dashboards')
+      .send({ name: 'Main', views: [livingRoomView] })
+      .expect(201);
+
+    expect(created.body.id).toMatch(/^dashboard_/);
+
+    const fetched = await request(app).get(`/api/dashboards/${created.body.id}`).expect(200);
+    expect(fetched.body).toMatchObject({ name: 'Main', isDefault: false, views: [livingRoomView] });
+
+    const list = await request(app).get('/api/dashboards').expect(200);
+    expect(list.body).toHaveLength(1);
+  });
+
+  it('rejects views that do not match the dashboard types', async () => {
+    const response = await request(app)
+      .post('/api/dashboards')
+      .send({ name: 'Main', views: [{ ...livingRoomView, type: 'sidebar' }] })
+      .expect(400);
+
+    expect(response.body.error).toBe('Validation failed');
+  });
+
+  it('keeps a single default dashboard', async () => {
+    const first = await request(app).post('/api/dashboards').send({ name: 'First', isDefault: true });
+    const second = await request(app).post('/api/dashboards').send({ name: 'Second' });
+
+    await request(app).put(`/api/dashboards/${second.body.id}`).send({ isDefault: true }).expect(200);
+
+    expect(database.getDashboard(first.body.id)!.isDefault).toBe(false);
+    expect(database.getDashboard(second.body.id)!.isDefault).toBe(true);
+  });
+
+  it('updates and deletes dashboards, 404ing on unknown IDs', async () => {
+    const created = await request(app).post('/api/dashboards').send({ name: 'Main' });
+
+    const updated = await request(app)
+      .put(`/api/dashboards/${created.body.id}`)
+      .send({ views: [livingRoomView] })
+      .expect(200);
+    expect(updated.body.name).toBe('Main');
+    expect(updated.body.views).toHaveLength(1);
+
+    await request(app).delete(`/api/dashboards/${created.body.id}`).expect(200);
+    await request(app).get(`/api/dashboards/${created.body.id}`).expect(404);
+    await request(app).put('/api/dashboards/missing').send({ name: 'Other' }).expect(404);
+  });
+
+  it('bumps the version on real changes and reports every write', async () => {
+    const onChange = jest.fn();
+    const notifying = express();
+    notifying.use(express.json());
+    notifying.use('/api/dashboards', createDashboardRouter(database, {
+      getOwnerId: () => database.ensureUser('admin', 'admin'),
+      onChange
+    }));
+
+    const created = await request(notifying).post('/api/dashboards').send({ name: 'Main' });
+    expect(created.body.version).toBe(1);
+
+    await request(notifying).put(`/api/dashboards/${created.body.id}`).send({ name: 'Main' }).expect(200);
+    expect(database.getDashboard(created.body.id)!.version).toBe(1);
+
+    const renamed = await request(notifying).put(`/api/dashboards/${created.body.id}`).send({ name: 'Home' });
+    expect(renamed.body.version).toBe(2);
+
+    await request(notifying).delete(`/api/dashboards/${created.body.id}`).expect(200);
+    expect(onChange.mock.calls).toEqual([
+      [created.body.id, 'created'],
+      [created.body.id, 'updated'],
+      [created.body.id, 'updated'],
+      [created.body.id, 'deleted']
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Entity Cache Tests
+ */
+
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DatabaseService } from '../database';
+import { EntityCacheService } from '../services/entity-cache';
+import { makeState, createFakeHAService } from './helpers/home-assistant';
+
+describe('EntityCacheService', () => {
+  let db: Database.Database;
+  let cache: EntityCacheService;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(readFileSync(join(__dirname, '..', 'database', 'schema.sql'), 'utf8'));
+    cache = new EntityCacheService(new DatabaseService(db));
+  });
+
+  afterEach(() => {
+    cache.close();
+    db.close();
+  });
+
+  it('replaces the cache when the state mirror is seeded', () => {
+    const ha = createFakeHAService();
+    cache.attach(ha);
+
+    ha.fire('states_loaded', [makeState('light.old', 'on')]);
+    ha.fire('states_loaded', [makeState('light.kitchen', 'off'), makeState('sensor.power', '120')]);
+
+    const cached = cache.getCachedStates();
+    expect(cached.map(entity => entity.entity_id)).toEqual(['light.kitchen', 'sensor.power']);
+  });
+
+  it('persists batched state changes on flush', () => {
+    const ha = createFakeHAService();
+    cache.attach(ha);
+    ha.fire('states_loaded', [makeState('light.kitchen', 'off'), makeState('sensor.power', '120')]);
+
+    ha.fire('state_changed', { entity_id: 'light.kitchen', new_state: makeState('light.kitchen', 'on') });
+    ha.fire('state_changed', { entity_id: 'sensor.power', new_state: null });
+    expect(cache.getCachedState('light.kitchen')?.state).toBe('off');
+
+    cache.flush();
+
+    expect(cache.getCachedState('light.kitchen')?.state).toBe('on');
+    expect(cache.getCachedState('sensor.power')).toBeNull();
+  });
+
+  it('flags cached states as stale with a cachedAt timestamp', () => {
+    const ha = createFakeHAService();
+    cache.attach(ha);
+    ha.fire('states_loaded', [makeState('light.kitchen', 'off')]);
+
+    const [entity] = cache.getCachedStates();
+    expect(entity.stale).toBe(true);
+    expect(new Date(entity.cachedAt).getTime()).not.toBeNaN();
+    expect(entity.attributes.friendly_name).toBe('light.kitchen');
+  });
+
+  it('keeps namespaced instances apart in the shared table', () => {
+    const cottageCache = new EntityCacheService(new DatabaseService(db), 'cottage');
+    const home = createFakeHAService();
+    const cottage = createFakeHAService();
+    cache.attach(home);
+    cottageCache.attach(cottage);
+
+    home.fire('states_loaded', [makeState('light.kitchen', 'off')]);
+    cottage.fire('states_loaded', [makeState('light.kitchen', 'on')]);
+    // Reseeding one instance must not wipe the other
+    home.fire('states_loaded', [makeState('light.kitchen', 'off'), makeState('sensor.power', '120')]);
+
+    expect(cache.getCachedStates().map(entity => entity.entity_id)).toEqual(['light.kitchen', 'sensor.power']);
+    expect(cottageCache.getCachedStates()).toHaveLength(1);
+    expect(cottageCache.getCachedState('light.kitchen')?.state).toBe('on');
+
+    cottageCache.close();
+  });
+});
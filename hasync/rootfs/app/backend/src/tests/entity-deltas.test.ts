@@ -0,0 +1,83 @@
+/**
+ * Entity Delta Tracker Tests
+ */
+
+import { EntityDeltaTracker, diffEntityState, mergeEntityDeltas } from '../services/entity-deltas';
+
+const makeState = (state: string, attributes: Record<string, any>, lastChanged = '2024-01-01T00:00:00.000Z') => ({
+  entity_id: 'media_player.lounge',
+  state,
+  attributes,
+  last_changed: lastChanged,
+  last_updated: lastChanged,
+  context: { id: 'ctx' }
+});
+
+describe('EntityDeltaTracker', () => {
+  it('sends only changed state and attribute keys', () => {
+    const base = makeState('playing', { volume_level: 0.4, media_title: 'Song A', entity_picture: '/a.png' });
+    const next = makeState('playing', { volume_level: 0.5, media_title: 'Song A' });
+
+    expect(diffEntityState(base, next)).toEqual({
+      attributes: { volume_level: 0.5 },
+      removedAttributes: ['entity_picture']
+    });
+  });
+
+  it('versions each entity and diffs against the last recorded state', () => {
+    const tracker = new EntityDeltaTracker();
+    const first = makeState('paused', { volume_level: 0.4 });
+    const second = makeState('playing', { volume_level: 0.4 }, '2024-01-01T00:01:00.000Z');
+    const third = makeState('playing', { volume_level: 0.6 }, '2024-01-01T00:01:00.000Z');
+
+    tracker.record('media_player.lounge', null, first);
+    const delta = tracker.record('media_player.lounge', first, second);
+    expect(delta).toEqual(expect.objectContaining({
+      entityId: 'media_player.lounge',
+      version: 2,
+      state: 'playing',
+      last_changed: '2024-01-01T00:01:00.000Z'
+    }));
+    expect(delta.attributes).toBeUndefined();
+
+    // A stale old_state doesn't matter once the entity is tracked
+    const next = tracker.record('media_player.lounge', first, third);
+    expect(next.version).toBe(3);
+    expect(next.state).toBeUndefined();
+    expect(next.attributes).toEqual({ volume_level: 0.6 });
+  });
+
+  it('marks removed entities and snapshots current versions', () => {
+    const tracker = new EntityDeltaTracker();
+    tracker.record('light.kitchen', null, makeState('on', {}));
+    tracker.record('media_player.lounge', null, makeState('idle', {}));
+    expect(tracker.record('light.kitchen', makeState('on', {}), null)).toEqual(expect.objectContaining({
+      version: 2,
+      removed: true
+    }));
+
+    expect(tracker.snapshot(['light.kitchen', 'sensor.unknown'])).toEqual([
+      { entityId: 'light.kitchen', version: 2, state: null }
+    ]);
+    expect(tracker.snapshot(undefined, entityId => entityId.startsWith('media_player.'))).toEqual([
+      expect.objectContaining({ entityId: 'media_player.lounge', version: 1 })
+    ]);
+  });
+
+  it('merges consecutive deltas into one covering both versions', () => {
+    const merged = mergeEntityDeltas(
+      { entityId: 'media_player.lounge', version: 4, state: 'playing', attributes: { volume_level: 0.5, media_title: 'A' }, timestamp: 't1' },
+      { entityId: 'media_player.lounge', version: 5, attributes: { volume_level: 0.6 }, removedAttributes: ['media_title'], timestamp: 't2' }
+    );
+
+    expect(merged).toEqual({
+      entityId: 'media_player.lounge',
+      version: 5,
+      baseVersion: 3,
+      state: 'playing',
+      attributes: { volume_level: 0.6 },
+      removedAttributes: ['media_title'],
+      timestamp: 't2'
+    });
+  });
+});
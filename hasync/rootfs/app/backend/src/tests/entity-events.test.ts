@@ -0,0 +1,117 @@
+/**
+ * Entity Event Bridge Tests
+ */
+
+import { EntityEventBridge, ENTITIES_ROOM } from '../services/entity-events';
+import { DEFAULT_INSTANCE_ID } from '../services/ha-instances';
+import { EntitySubscriptionRegistry } from '../services/entity-subscriptions';
+import { makeState, createFakeHAService } from './helpers/home-assistant';
+
+describe('EntityEventBridge', () => {
+  const emit = jest.fn();
+  const rooms = new Map([[ENTITIES_ROOM, new Set(['socket_1'])]]);
+  const io = { to: jest.fn(() => ({ emit })), sockets: { adapter: { rooms } } };
+  let subscriptions: EntitySubscriptionRegistry;
+
+  beforeEach(() => {
+    emit.mockClear();
+    io.to.mockClear();
+    subscriptions = new EntitySubscriptionRegistry(() => null);
+    subscriptions.subscribe('socket_1', {});
+  });
+
+  it('sends state_changed events to the entities room with old and new state', () => {
+    const bridge = new EntityEventBridge(io as any, subscriptions);
+    const service = createFakeHAService();
+    bridge.attach(DEFAULT_INSTANCE_ID, service);
+
+    service.fire('state_changed', {
+      entity_id: 'light.kitchen',
+      old_state: makeState('light.kitchen', 'off'),
+      new_state: makeState('light.kitchen', 'on')
+    });
+
+    expect(io.to).toHaveBeenCalledWith('socket_1');
+    expect(emit).toHaveBeenCalledWith('entity_update', expect.objectContaining({
+      entityId: 'light.kitchen',
+      instanceId: DEFAULT_INSTANCE_ID,
+      oldState: expect.objectContaining({ state: 'off' }),
+      newState: expect.objectContaining({ state: 'on', instance_id: DEFAULT_INSTANCE_ID })
+    }));
+  });
+
+  it('namespaces other instances and stops once detached', () => {
+    const bridge = new EntityEventBridge(io as any, subscriptions);
+    const service = createFakeHAService();
+    bridge.attach('cottage', service);
+
+    // Removed entity: no new state
+    service.fire('state_changed', { entity_id: 'light.kitchen', old_state: makeState('light.kitchen', 'on'), new_state: null });
+
+    const [, payload] = emit.mock.calls[0];
+    expect(payload.entityId).toBe('cottage:light.kitchen');
+    expect(payload.oldState.entity_id).toBe('cottage:light.kitchen');
+    expect(payload.newState).toBeNull();
+
+    bridge.detach('cottage');
+    service.fire('state_changed', { entity_id: 'light.kitchen', old_state: null, new_state: makeState('light.kitchen', 'on') });
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+
+  it('only sends entities a socket subscribed to', () => {
+    const bridge = new EntityEventBridge(io as any, subscriptions);
+    const service = createFakeHAService();
+    bridge.attach(DEFAULT_INSTANCE_ID, service);
+
+    subscriptions.remove('socket_1');
+    subscriptions.subscribe('socket_1', { patterns: ['sensor.*'] });
+
+    service.fire('state_changed', { entity_id: 'light.kitchen', old_state: null, new_state: makeState('light.kitchen', 'on') });
+    service.fire('state_changed', { entity_id: 'sensor.power', old_state: null, new_state: makeState('sensor.power', '120') });
+
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit.mock.calls[0][1].entityId).toBe('sensor.power');
+  });
+
+  it('sends versioned deltas to sockets in delta mode and snapshots on request', () => {
+    const bridge = new EntityEventBridge(io as any, subscriptions);
+    const service = createFakeHAService();
+    bridge.attach(DEFAULT_INSTANCE_ID, service);
+    bridge.setDeltaMode('socket_1', true);
+
+    const off = makeState('light.kitchen', 'off');
+    service.fire('state_changed', { entity_id: 'light.kitchen', old_state: off, new_state: { ...off, state: 'on' } });
+
+    expect(emit).toHaveBeenCalledWith('entity_delta', expect.objectContaining({
+      entityId: 'light.kitchen',
+      version: 1,
+      state: 'on'
+    }));
+    expect(emit.mock.calls[0][1].attributes).toBeUndefined();
+
+    expect(bridge.snapshot('socket_1')).toEqual([
+      expect.objectContaining({ entityId: 'light.kitchen', version: 1, state: expect.objectContaining({ state: 'on' }) })
+    ]);
+  });
+
+  it('replays missed updates once per entity on resume', () => {
+    const bridge = new EntityEventBridge(io as any, subscriptions);
+    const service = createFakeHAService();
+    bridge.attach(DEFAULT_INSTANCE_ID, service);
+
+    service.fire('state_changed', { entity_id: 'sensor.power', old_state: null, new_state: makeState('sensor.power', '100') });
+    const { seq, epoch } = bridge.getReplayPosition();
+    service.fire('state_changed', { entity_id: 'sensor.power', old_state: null, new_state: makeState('sensor.power', '110') });
+    service.fire('state_changed', { entity_id: 'sensor.power', old_state: null, new_state: makeState('sensor.power', '120') });
+    emit.mockClear();
+
+    expect(bridge.resume('socket_1', seq, epoch)).toEqual({ replayed: 1 });
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit.mock.calls[0][1]).toEqual(expect.objectContaining({
+      seq: seq + 2,
+      newState: expect.objectContaining({ state: '120' })
+    }));
+
+    expect(bridge.resume('socket_1', 0, 'ffffffffffffffff')).toEqual({ resync: 'epoch_changed' });
+  });
+});
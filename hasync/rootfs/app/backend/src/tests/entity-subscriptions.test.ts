@@ -0,0 +1,65 @@
+/**
+ * Entity Subscription Registry Tests
+ */
+
+import { EntitySubscriptionRegistry, globToRegExp } from '../services/entity-subscriptions';
+
+describe('EntitySubscriptionRegistry', () => {
+  let areas: Record<string, string[]>;
+  let registry: EntitySubscriptionRegistry;
+
+  beforeEach(() => {
+    areas = { kitchen: ['light.kitchen', 'switch.kettle'] };
+    registry = new EntitySubscriptionRegistry(areaId => areas[areaId] || null);
+  });
+
+  it('matches exact entity IDs and globs', () => {
+    registry.subscribe('client_1', { entityIds: ['light.hall'], patterns: ['sensor.*_power'] });
+
+    expect(registry.matches('client_1', 'light.hall')).toBe(true);
+    expect(registry.matches('client_1', 'sensor.fridge_power')).toBe(true);
+    expect(registry.matches('client_1', 'sensor.fridge_energy')).toBe(false);
+    expect(registry.matches('client_2', 'light.hall')).toBe(false);
+  });
+
+  it('subscribes to everything with an empty filter', () => {
+    const subscription = registry.subscribe('client_1', {});
+
+    expect(subscription.patterns).toEqual(['*']);
+    expect(registry.matches('client_1', 'cottage:climate.lounge')).toBe(true);
+  });
+
+  it('follows area membership when the area changes', () => {
+    const subscription = registry.subscribe('client_1', { areaIds: ['kitchen'] });
+    expect(subscription.areaEntityIds.kitchen).toEqual(['light.kitchen', 'switch.kettle']);
+    expect(registry.matches('client_1', 'switch.kettle')).toBe(true);
+
+    areas.kitchen = ['light.kitchen', 'sensor.oven'];
+    expect(registry.refreshArea('kitchen')).toEqual(['client_1']);
+    expect(registry.refreshArea('garage')).toEqual([]);
+
+    expect(registry.matches('client_1', 'switch.kettle')).toBe(false);
+    expect(registry.matches('client_1', 'sensor.oven')).toBe(true);
+
+    // Deleted area matches nothing
+    delete areas.kitchen;
+    registry.refreshArea('kitchen');
+    expect(registry.matches('client_1', 'light.kitchen')).toBe(false);
+  });
+
+  it('removes parts of a filter or the whole subscription', () => {
+    registry.subscribe('client_1', { entityIds: ['light.hall'], areaIds: ['kitchen'] });
+
+    const remaining = registry.unsubscribe('client_1', { areaIds: ['kitchen'] });
+    expect(remaining).toEqual({ entityIds: ['light.hall'], patterns: [], areaIds: [], areaEntityIds: {} });
+    expect(registry.matches('client_1', 'light.kitchen')).toBe(false);
+
+    expect(registry.unsubscribe('client_1')).toBeNull();
+    expect(registry.has('client_1')).toBe(false);
+  });
+
+  it('escapes regex characters in globs', () => {
+    expect(globToRegExp('sensor.?').test('sensor.a')).toBe(true);
+    expect(globToRegExp('sensor.?').test('sensorxa')).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Entity Update Throttler Tests
+ */
+
+import { EntityUpdateThrottler, getDeviceThrottleDefaults, getEntityDomain } from '../services/entity-throttle';
+
+describe('EntityUpdateThrottler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('coalesces updates within the interval and flushes the latest', () => {
+    const throttler = new EntityUpdateThrottler<string>();
+    const send = jest.fn();
+    throttler.configure('client_1', { domains: { sensor: 1000 } });
+
+    throttler.submit('client_1', 'sensor.power', '100', send);
+    throttler.submit('client_1', 'sensor.power', '110', send);
+    throttler.submit('client_1', 'sensor.power', '120', send);
+    throttler.submit('client_1', 'light.kitchen', 'on', send);
+
+    expect(send.mock.calls.map(call => call[0])).toEqual(['100', 'on']);
+
+    jest.advanceTimersByTime(1000);
+    expect(send).toHaveBeenLastCalledWith('120');
+    expect(throttler.getCounters('client_1')).toEqual({ sent: 3, coalesced: 1, dropped: 0 });
+  });
+
+  it('prefers entity over domain over overall intervals', () => {
+    const throttler = new EntityUpdateThrottler<string>();
+    throttler.configure('client_1', { intervalMs: 50, domains: { sensor: 1000 } });
+    throttler.configure('client_1', { entities: { 'cottage:sensor.power': 0 } });
+
+    expect(throttler.getIntervalMs('client_1', 'cottage:sensor.power')).toBe(0);
+    expect(throttler.getIntervalMs('client_1', 'sensor.energy')).toBe(1000);
+    expect(throttler.getIntervalMs('client_1', 'light.kitchen')).toBe(50);
+    expect(throttler.getIntervalMs('client_2', 'sensor.energy')).toBe(0);
+  });
+
+  it('merges pending messages with the coalesce function and drops them on removal', () => {
+    const throttler = new EntityUpdateThrottler<number[]>((pending, next) => [...pending, ...next]);
+    const send = jest.fn();
+    throttler.configure('client_1', { intervalMs: 1000 });
+
+    throttler.submit('client_1', 'sensor.power', [1], send);
+    throttler.submit('client_1', 'sensor.power', [2], send);
+    throttler.submit('client_1', 'sensor.power', [3], send);
+    jest.advanceTimersByTime(1000);
+    expect(send).toHaveBeenLastCalledWith([2, 3]);
+
+    throttler.submit('client_1', 'sensor.power', [4], send);
+    throttler.remove('client_1');
+    jest.advanceTimersByTime(1000);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(throttler.getCounters()).toEqual({ sent: 2, coalesced: 1, dropped: 1 });
+  });
+
+  it('falls back to the other device defaults', () => {
+    expect(getDeviceThrottleDefaults('desktop')).toEqual({});
+    expect(getDeviceThrottleDefaults('watch')).toEqual(getDeviceThrottleDefaults('other'));
+    expect(getEntityDomain('cottage:sensor.power')).toBe('sensor');
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Realtime Event Buffer Tests
+ */
+
+import { RealtimeEventBuffer } from '../services/event-replay';
+
+describe('RealtimeEventBuffer', () => {
+  it('numbers events and returns the ones after a sequence', () => {
+    const buffer = new RealtimeEventBuffer<{ seq: number; state: string }>(10);
+
+    buffer.append('light.kitchen', seq => ({ seq, state: 'on' }));
+    buffer.append('light.kitchen', seq => ({ seq, state: 'off' }));
+    buffer.append('sensor.power', seq => ({ seq, state: '120' }));
+
+    expect(buffer.getSeq()).toBe(3);
+    expect(buffer.since(1)).toEqual({
+      events: [
+        { seq: 2, entityId: 'light.kitchen', event: { seq: 2, state: 'off' } },
+        { seq: 3, entityId: 'sensor.power', event: { seq: 3, state: '120' } }
+      ]
+    });
+    expect(buffer.since(3, buffer.epoch)).toEqual({ events: [] });
+  });
+
+  it('asks for a resync once the gap is no longer buffered', () => {
+    const buffer = new RealtimeEventBuffer<number>(3);
+    for (let i = 0; i < 5; i++) {
+      buffer.append('sensor.power', seq => seq);
+    }
+
+    // Events 3-5 remain
+    expect(buffer.since(2)).toEqual({ events: expect.arrayContaining([expect.objectContaining({ seq: 3 })]) });
+    expect(buffer.since(1)).toEqual({ resync: 'gap_too_large' });
+  });
+
+  it('asks for a resync after a server restart', () => {
+    const buffer = new RealtimeEventBuffer<number>(10);
+    buffer.append('sensor.power', seq => seq);
+
+    expect(buffer.since(0, 'ffffffffffffffff')).toEqual({ resync: 'epoch_changed' });
+    expect(buffer.since(42)).toEqual({ resync: 'ahead_of_server' });
+  });
+});
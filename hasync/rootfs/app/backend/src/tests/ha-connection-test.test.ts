@@ -0,0 +1,94 @@
+/**
+ * Home Assistant Connection Test Tests
+ * Runs against a local stand-in for the HA REST API
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { resolveHAToken, testHAConnection } from '../services/ha-connection-test';
+
+const TOKEN = 'test_token';
+
+describe('testHAConnection', () => {
+  let server: Server;
+  let url: string;
+
+  beforeEach(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/slow/api/config') {
+        return; // Never answered
+      }
+      if (req.url === '/other/api/config') {
+        res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html></html>');
+        return;
+      }
+      if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+        res.writeHead(401).end();
+      } else if (req.url === '/api/config') {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify({ version: '2024.6.1', location_name: 'Home' }));
+      } else if (req.url === '/api/states') {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify([{ entity_id: 'light.kitchen' }, { entity_id: 'sensor.power' }]));
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('reports the HA version and entity count for working credentials', async () => {
+    const result = await testHAConnection(`${url}/`, TOKEN);
+
+    expect(result).toMatchObject({ success: true, version: '2024.6.1', locationName: 'Home', entityCount: 2 });
+  });
+
+  it('categorizes failures', async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const closedUrl = `http://127.0.0.1:${(closed.address() as AddressInfo).port}`;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const categories = await Promise.all([
+      testHAConnection('homeassistant.local', TOKEN),
+      testHAConnection(url, 'wrong_token'),
+      testHAConnection(`${url}/other`, TOKEN),
+      testHAConnection(`${url}/missing`, TOKEN),
+      testHAConnection(closedUrl, TOKEN),
+      testHAConnection(`${url}/slow`, TOKEN, { timeout: 200 })
+    ]).then(results => results.map(result => result.category));
+
+    expect(categories).toEqual([
+      'invalid_url',
+      'auth_invalid',
+      'not_home_assistant',
+      'not_home_assistant',
+      'unreachable',
+      'timeout'
+    ]);
+  });
+});
+
+describe('resolveHAToken', () => {
+  const saved = { url: 'http://homeassistant.local:8123', token: 'saved_token' };
+
+  it('prefers the token sent with the request', () => {
+    expect(resolveHAToken('http://other.example', 'new_token', saved)).toBe('new_token');
+  });
+
+  it('falls back to the saved token for the saved URL', () => {
+    expect(resolveHAToken('http://homeassistant.local:8123/', undefined, saved)).toBe('saved_token');
+  });
+
+  it('never sends the saved token to a different URL', () => {
+    expect(resolveHAToken('http://attacker.example', undefined, saved)).toBeUndefined();
+    expect(resolveHAToken('http://attacker.example', '', saved)).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Home Assistant Instance Manager Tests
+ */
+
+import { HAInstanceManager, DEFAULT_INSTANCE_ID } from '../services/ha-instances';
+
+const makeConfig = (id: string, url = 'http://127.0.0.1:1') => ({ id, name: id, url, token: 'token' });
+
+describe('HAInstanceManager', () => {
+  let manager: HAInstanceManager;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    manager = new HAInstanceManager(null);
+  });
+
+  afterEach(async () => {
+    manager.disconnectAll();
+    // Let the aborted sockets report their errors before logging is restored
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    jest.restoreAllMocks();
+  });
+
+  it('namespaces entity IDs of every instance but the default one', () => {
+    expect(HAInstanceManager.toGlobalEntityId(DEFAULT_INSTANCE_ID, 'light.kitchen')).toBe('light.kitchen');
+    expect(HAInstanceManager.toGlobalEntityId('cottage', 'light.kitchen')).toBe('cottage:light.kitchen');
+
+    expect(HAInstanceManager.parseEntityId('light.kitchen')).toEqual({ instanceId: DEFAULT_INSTANCE_ID, entityId: 'light.kitchen' });
+    expect(HAInstanceManager.parseEntityId('cottage:light.kitchen')).toEqual({ instanceId: 'cottage', entityId: 'light.kitchen' });
+  });
+
+  it('creates, replaces and removes services as the configuration changes', () => {
+    const onConnect = jest.fn();
+    const onDisconnect = jest.fn();
+    manager = new HAInstanceManager(null, { onConnect, onDisconnect });
+
+    manager.sync([makeConfig(DEFAULT_INSTANCE_ID), makeConfig('cottage')]);
+    const defaultService = manager.getDefault()!.service;
+    expect(manager.getStatus().map(status => [status.id, status.status])).toEqual([
+      [DEFAULT_INSTANCE_ID, 'disconnected'],
+      ['cottage', 'disconnected']
+    ]);
+
+    // Renaming keeps the connection, a new URL replaces it
+    manager.sync([{ ...makeConfig(DEFAULT_INSTANCE_ID), name: 'Main house' }, makeConfig('cottage', 'http://127.0.0.1:2')]);
+    expect(manager.getDefault()!.service).toBe(defaultService);
+    expect(manager.getDefault()!.config.name).toBe('Main house');
+    expect(onConnect).toHaveBeenCalledTimes(3);
+
+    manager.sync([makeConfig(DEFAULT_INSTANCE_ID)]);
+    expect(manager.get('cottage')).toBeUndefined();
+    expect(onDisconnect).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Home Assistant Test Helpers
+ * Entity states and a HomeAssistantService stand-in shared by the suites
+ */
+
+import { HomeAssistantService } from '../../services/homeassistant';
+import { HAEntity } from '../../types';
+
+export const makeState = (
+  entityId: string,
+  state: string,
+  attributes: Record<string, any> = { friendly_name: entityId }
+): HAEntity => ({
+  entity_id: entityId,
+  state,
+  attributes,
+  last_changed: '2024-01-01T00:00:00.000Z',
+  last_updated: '2024-01-01T00:00:00.000Z',
+  context: { id: 'ctx' }
+});
+
+export type FakeHAService = HomeAssistantService & {
+  // Delivers an event to the handlers registered with on()
+  fire(eventType: string, data: any): void;
+  // Number of handlers registered for an event
+  listenerCount(eventType: string): number;
+};
+
+/**
+ * Event subscription works like the real service; anything else a suite
+ * needs (registries, dashboards) is passed in as `methods`
+ */
+export const createFakeHAService = (methods: Partial<HomeAssistantService> = {}): FakeHAService => {
+  const handlers = new Map<string, Set<(data: any) => void>>();
+  const fake = {
+    on: (eventType: string, handler: (data: any) => void) => {
+      if (!handlers.has(eventType)) {
+        handlers.set(eventType, new Set());
+      }
+      handlers.get(eventType)!.add(handler);
+    },
+    off: (eventType: string, handler: (data: any) => void) => {
+      handlers.get(eventType)?.delete(handler);
+    },
+    fire: (eventType: string, data: any) => {
+      handlers.get(eventType)?.forEach(handler => handler(data));
+    },
+    listenerCount: (eventType: string) => handlers.get(eventType)?.size || 0,
+    ...methods
+  };
+  return fake as unknown as FakeHAService;
+};
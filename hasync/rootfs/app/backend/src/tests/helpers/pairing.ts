@@ -0,0 +1,23 @@
+/**
+ * Pairing Test Helpers
+ * A PairingService stand-in for suites that only need a few of its methods
+ */
+
+import { PairingService } from '../../services/pairing';
+import { Client } from '../../types';
+
+export const makeClient = (overrides: Partial<Client> = {}): Client => ({
+  id: 'client_1',
+  name: 'Kitchen Tablet',
+  device_type: 'desktop',
+  public_key: '',
+  certificate: '',
+  paired_at: 0,
+  last_seen: 0,
+  is_active: true,
+  ...overrides
+});
+
+// Only `methods` are implemented; the suite passes the ones it exercises
+export const createFakePairingService = (methods: Partial<PairingService>): PairingService =>
+  methods as unknown as PairingService;
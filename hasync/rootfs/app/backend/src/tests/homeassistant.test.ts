@@ -0,0 +1,211 @@
+/**
+ * Home Assistant Service Tests
+ * Runs the service against a local stand-in for the HA WebSocket API
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { HomeAssistantService } from '../services/homeassistant';
+import { HomeAssistantError } from '../errors/AppError';
+import { makeState } from './helpers/home-assistant';
+
+const TOKEN = 'test_token';
+
+describe('HomeAssistantService', () => {
+  let registries: Record<string, any[]>;
+  let server: Server;
+  let wss: WebSocket.Server;
+  let haSocket: WebSocket | null;
+  let connections: number;
+  let url: string;
+  let service: HomeAssistantService;
+
+  beforeEach(async () => {
+    server = createServer();
+    wss = new WebSocket.Server({ server, path: '/api/websocket' });
+    haSocket = null;
+    connections = 0;
+    registries = {
+      'config/area_registry/list': [{ area_id: 'kitchen', name: 'Kitchen' }],
+      'config/device_registry/list': [{ id: 'dev1', name: 'Plug', area_id: 'kitchen' }],
+      'config/entity_registry/list': [
+        // Inherits the device's area
+        { entity_id: 'sensor.power', device_id: 'dev1', area_id: null, platform: 'tplink' },
+        // Overrides the device's area
+        { entity_id: 'light.kitchen', device_id: 'dev1', area_id: 'living_room', platform: 'hue' }
+      ]
+    };
+
+    wss.on('connection', (ws) => {
+      haSocket = ws;
+      connections++;
+      ws.send(JSON.stringify({ type: 'auth_required' }));
+
+      ws.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+
+        if (message.type === 'auth' && message.access_token === TOKEN) {
+          ws.send(JSON.stringify({ type: 'auth_ok' }));
+        } else if (message.type === 'auth') {
+          // HA drops the connection after rejecting a token
+          ws.send(JSON.stringify({ type: 'auth_invalid', message: 'Invalid access token or password' }));
+          ws.close();
+        } else if (message.type === 'get_states') {
+          ws.send(JSON.stringify({
+            id: message.id,
+            type: 'result',
+            success: true,
+            result: [makeState('light.kitchen', 'off'), makeState('sensor.power', '120')]
+          }));
+        } else if (registries[message.type]) {
+          ws.send(JSON.stringify({ id: message.id, type: 'result', success: true, result: registries[message.type] }));
+        } else if (message.type === 'call_service' && message.domain === 'broken') {
+          ws.send(JSON.stringify({
+            id: message.id,
+            type: 'result',
+            success: false,
+            error: { code: 'service_validation_error', message: 'Entity light.missing not found' }
+          }));
+        } else if (message.type === 'call_service' && message.domain === 'slow') {
+          // Never answered
+        } else {
+          ws.send(JSON.stringify({ id: message.id, type: 'result', success: true, result: null }));
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    service = new HomeAssistantService({ url, token: TOKEN, mode: 'standalone', requestTimeout: 200 });
+  });
+
+  afterEach(async () => {
+    service.disconnect();
+    wss.clients.forEach((client) => client.terminate());
+    await new Promise<void>((resolve) => wss.close(() => server.close(() => resolve())));
+  });
+
+  const waitFor = async (condition: () => boolean, timeout = 2000): Promise<void> => {
+    const started = Date.now();
+    while (!condition()) {
+      if (Date.now() - started > timeout) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  it('seeds the state mirror from get_states after authenticating', async () => {
+    await service.connect();
+    await waitFor(() => service.hasStateMirror());
+
+    expect(service.getMirroredStates()).toHaveLength(2);
+    expect(service.getMirroredState('light.kitchen')?.state).toBe('off');
+  });
+
+  it('keeps the mirror current from state_changed events', async () => {
+    await service.connect();
+    await waitFor(() => service.hasStateMirror());
+
+    haSocket!.send(JSON.stringify({
+      type: 'event',
+      event: {
+        event_type: 'state_changed',
+        data: {
+          entity_id: 'light.kitchen',
+          old_state: makeState('light.kitchen', 'off'),
+          new_state: makeState('light.kitchen', 'on')
+        }
+      }
+    }));
+    haSocket!.send(JSON.stringify({
+      type: 'event',
+      event: {
+        event_type: 'state_changed',
+        data: { entity_id: 'sensor.power', old_state: makeState('sensor.power', '120'), new_state: null }
+      }
+    }));
+
+    await waitFor(() => service.getMirroredState('sensor.power') === null);
+    expect(service.getMirroredState('light.kitchen')?.state).toBe('on');
+  });
+
+  it('reports no mirror once the socket is closed', async () => {
+    await service.connect();
+    await waitFor(() => service.hasStateMirror());
+
+    haSocket!.close();
+    await waitFor(() => !service.hasStateMirror());
+  });
+
+  it('rejects failed calls with the error code and message from HA', async () => {
+    await service.connect();
+
+    const call = service.callService('broken', 'turn_on', undefined, { entity_id: 'light.missing' });
+    await expect(call).rejects.toBeInstanceOf(HomeAssistantError);
+    await expect(call).rejects.toMatchObject({
+      code: 'service_validation_error',
+      message: 'Entity light.missing not found'
+    });
+  });
+
+  it('times out requests HA never answers', async () => {
+    await service.connect();
+
+    await expect(service.callService('slow', 'turn_on')).rejects.toMatchObject({
+      code: 'timeout',
+      statusCode: 504
+    });
+  });
+
+  it('rejects pending requests when the connection drops', async () => {
+    await service.connect();
+
+    const call = service.callService('slow', 'turn_on');
+    haSocket!.terminate();
+
+    await expect(call).rejects.toMatchObject({ code: 'connection_lost' });
+  });
+
+  it('stops reconnecting once HA rejects the token', async () => {
+    service = new HomeAssistantService({ url, token: 'revoked', mode: 'standalone' });
+
+    await expect(service.connect()).rejects.toMatchObject({ code: 'auth_invalid', statusCode: 401 });
+    await waitFor(() => haSocket?.readyState === WebSocket.CLOSED);
+
+    // The first reconnect would have fired within a second
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+    expect(connections).toBe(1);
+
+    // An explicit connect() tries again
+    await expect(service.connect()).rejects.toMatchObject({ code: 'auth_invalid' });
+    expect(connections).toBe(2);
+  });
+
+  it('rejects immediately when not connected', async () => {
+    await expect(service.callService('light', 'turn_on')).rejects.toMatchObject({ code: 'not_connected' });
+  });
+
+  it('resolves entity areas through the entity and device registries', async () => {
+    await service.connect();
+    await waitFor(() => service.hasStateMirror() && service.hasRegistries());
+
+    expect(service.getEntityAreaId('sensor.power')).toBe('kitchen');
+    expect(service.getEntityAreaId('light.kitchen')).toBe('living_room');
+    expect((await service.getEntitiesByArea('kitchen')).map(state => state.entity_id)).toEqual(['sensor.power']);
+  });
+
+  it('reloads a registry when HA reports it was updated', async () => {
+    await service.connect();
+    await waitFor(() => service.hasRegistries());
+
+    registries['config/device_registry/list'] = [{ id: 'dev1', name: 'Plug', area_id: 'office' }];
+    haSocket!.send(JSON.stringify({
+      type: 'event',
+      event: { event_type: 'device_registry_updated', data: { action: 'update', device_id: 'dev1' } }
+    }));
+
+    await waitFor(() => service.getEntityAreaId('sensor.power') === 'office');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Lovelace Sync Tests
+ */
+
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DatabaseService } from '../database';
+import { convertLovelaceConfig, LovelaceSyncService, OPAQUE_CARD_TYPE } from '../services/lovelace';
+import { HomeAssistantError } from '../errors/AppError';
+import { dashboardViewSchema } from '../validation/schemas';
+import { createFakeHAService } from './helpers/home-assistant';
+
+const overviewConfig = {
+  title: 'Home',
+  views: [
+    {
+      title: 'Living Room',
+      path: 'living-room',
+      cards: [
+        { type: 'entities', title: 'Lights', entities: ['light.ceiling', { entity: 'switch.tv', name: 'TV' }, { type: 'divider' }] },
+        { type: 'thermostat', entity: 'climate.living_room' },
+        { type: 'custom:mushroom-chips-card', chips: [{ type: 'weather' }] },
+        { type: 'vertical-stack', cards: [{ type: 'markdown', content: '# Hi' }, { type: 'conditional', conditions: [] }] }
+      ]
+    },
+    {
+      title: 'Cameras',
+      panel: true,
+      cards: [{ type: 'picture-entity', entity: 'camera.door' }]
+    },
+    {
+      type: 'sections',
+      sections: [{ type: 'grid', cards: [{ type: 'tile', entity: 'lock.front' }] }]
+    }
+  ]
+};
+
+describe('Lovelace conversion', () => {
+  it('converts views and cards into the HAsync dashboard format', () => {
+    const views = convertLovelaceConfig(overviewConfig);
+
+    expect(views.map(view => [view.id, view.title, view.type])).toEqual([
+      ['living-room', 'Living Room', 'masonry'],
+      ['view_1', 'Cameras', 'panel'],
+      ['view_2', 'View 3', 'grid']
+    ]);
+
+    const [entities, thermostat] = views[0].cards;
+    expect(entities).toMatchObject({ type: 'entities', entities: ['light.ceiling', 'switch.tv'] });
+    expect(entities.config?.title).toBe('Lights');
+    expect(thermostat).toEqual({ id: 'living-room_1', type: 'thermostat', entity: 'climate.living_room' });
+    expect(views[2].cards[0]).toMatchObject({ type: 'tile', entity: 'lock.front' });
+
+    views.forEach(view => expect(dashboardViewSchema.safeParse(view).success).toBe(true));
+  });
+
+  it('accepts entity IDs with an HA instance prefix', () => {
+    const [view] = convertLovelaceConfig({
+      views: [{ cards: [{ type: 'glance', entities: ['cottage:light.porch'] }] }]
+    });
+
+    expect(view.cards[0].entities).toEqual(['cottage:light.porch']);
+  });
+
+  it('keeps cards it cannot convert as opaque cards', () => {
+    const [view] = convertLovelaceConfig(overviewConfig);
+    const custom = view.cards[2];
+    const stack = view.cards[3];
+
+    expect(custom.type).toBe(OPAQUE_CARD_TYPE);
+    expect(custom.config?.lovelace).toEqual(overviewConfig.views[0].cards[2]);
+    expect(stack.config?.cards.map((card: any) => card.type)).toEqual(['markdown', OPAQUE_CARD_TYPE]);
+  });
+});
+
+describe('LovelaceSyncService', () => {
+  let db: Database.Database;
+  let database: DatabaseService;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(readFileSync(join(__dirname, '..', 'database', 'schema.sql'), 'utf8'));
+    database = new DatabaseService(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const createLovelace = (configs: Record<string, any>) => createFakeHAService({
+    getDashboards: async () => Object.keys(configs)
+      .filter(urlPath => urlPath !== 'default')
+      .map(urlPath => ({ id: urlPath, url_path: urlPath, title: `Dashboard ${urlPath}` })),
+    getLovelaceConfig: async (urlPath: string | null) => {
+      const config = configs[urlPath || 'default'];
+      if (!config) {
+        throw new HomeAssistantError('config_not_found', 'No config found.');
+      }
+      return config;
+    }
+  });
+
+  it('stores every Lovelace dashboard and removes ones deleted in HA', async () => {
+    const sync = new LovelaceSyncService(database);
+    const ownerId = database.ensureUser('admin', 'admin');
+
+    const first = await sync.sync(createLovelace({
+      default: overviewConfig,
+      'dashboard-tablet': { views: [{ title: 'Tablet', cards: [] }] }
+    }), ownerId);
+
+    expect(first.synced.map(dashboard => [dashboard.id, dashboard.name])).toEqual([
+      ['lovelace_default', 'Home'],
+      ['lovelace_dashboard-tablet', 'Dashboard dashboard-tablet']
+    ]);
+    expect(database.getDashboard('lovelace_default')!.views).toHaveLength(3);
+
+    database.createDashboard({ name: 'Kiosk', views: [] }, ownerId, 'dashboard_local');
+    const second = await sync.sync(createLovelace({ 'dashboard-tablet': { views: [] } }), ownerId);
+
+    expect(second.skipped).toEqual([{ urlPath: null, reason: 'auto-generated' }]);
+    expect(database.getAllDashboards().map(dashboard => dashboard.id).sort()).toEqual([
+      'dashboard_local',
+      'lovelace_dashboard-tablet'
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Pairing QR Code Tests
+ */
+
+import { buildPairingUri, createPairingQRCode } from '../services/pairing-qr';
+
+describe('Pairing QR codes', () => {
+  const params = {
+    serverUrl: 'https://hasync.local:8099',
+    sessionId: 'abc123',
+    pin: '042317'
+  };
+
+  it('encodes the server, session, PIN and fingerprint in a hasync:// URI', () => {
+    const uri = buildPairingUri({ ...params, fingerprint: 'AB:CD:EF' });
+    const parsed = new URL(uri);
+
+    expect(parsed.protocol).toBe('hasync:');
+    expect(Object.fromEntries(parsed.searchParams)).toEqual({
+      server: 'https://hasync.local:8099',
+      session: 'abc123',
+      pin: '042317',
+      fingerprint: 'sha256:AB:CD:EF'
+    });
+    expect(buildPairingUri(params)).not.toContain('fingerprint');
+  });
+
+  it('renders the URI as SVG and PNG', async () => {
+    const qrCode = await createPairingQRCode(params);
+
+    expect(qrCode.uri).toBe(buildPairingUri(params));
+    expect(qrCode.svg).toMatch(/^<svg/);
+    expect(qrCode.pngDataUrl).toMatch(/^data:image\/png;base64,/);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Pairing Service Tests
+ */
+
+import Database from 'better-sqlite3';
+import { generateKeyPairSync, sign, X509Certificate } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DatabaseService } from '../database';
+import { PairingService } from '../services/pairing';
+import { CertificateAuthority } from '../services/certificate-authority';
+
+function createPublicKey(): string {
+  const { publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  return publicKey.export({ type: 'spki', format: 'pem' }).toString();
+}
+
+describe('PairingService', () => {
+  let db: Database.Database;
+  let database: DatabaseService;
+  let pairing: PairingService;
+
+  const device = { device_name: 'Kitchen Tablet', device_type: 'tablet', public_key: createPublicKey() };
+
+  beforeEach(() => {
+    // Only the cleanup interval needs faking; WebCrypto runs on real ticks
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    db = new Database(':memory:');
+    db.exec(readFileSync(join(__dirname, '..', 'database', 'schema.sql'), 'utf8'));
+    database = new DatabaseService(db);
+    const store = new Map<string, string>();
+    const ca = new CertificateAuthority({
+      get: (key) => store.get(key) ?? null,
+      set: (key, value) => store.set(key, value)
+    });
+    pairing = new PairingService(database, ca);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    db.close();
+  });
+
+  it('stores sessions with a six digit PIN', () => {
+    const session = pairing.generatePairingPin();
+
+    expect(session.pin).toMatch(/^\d{6}$/);
+    expect(pairing.getPairingSession(session.id)).toMatchObject({ id: session.id, used: false, client_id: null });
+  });
+
+  it('creates the client and records it on the session', async () => {
+    const session = pairing.generatePairingPin();
+
+    const client = await pairing.completePairing({ pin: session.pin, ...device }, session.id);
+
+    expect(database.getClient(client.id)).toMatchObject({ name: 'Kitchen Tablet', device_type: 'tablet' });
+    expect(pairing.getPairingSession(session.id)).toMatchObject({ used: true, client_id: client.id });
+    await expect(pairing.completePairing({ pin: session.pin, ...device, public_key: createPublicKey() }, session.id))
+      .rejects.toThrow('Invalid or expired PIN');
+  });
+
+  it('marks the session used by its ID', async () => {
+    const markUsed = jest.spyOn(database, 'markPairingSessionUsed');
+    const session = pairing.generatePairingPin();
+
+    const client = await pairing.completePairing({ pin: session.pin, ...device, public_key: createPublicKey() });
+
+    expect(markUsed).toHaveBeenCalledWith(session.id, client.id);
+  });
+
+  it('records the issued certificate on the client', async () => {
+    const session = pairing.generatePairingPin();
+
+    const client = await pairing.completePairing({ pin: session.pin, ...device }, session.id);
+    const certificate = new X509Certificate(client.certificate);
+
+    expect(client.certificate_serial).toBe(certificate.serialNumber);
+    // validTo has second precision
+    expect(Math.abs(Date.parse(certificate.validTo) - client.certificate_expires_at!)).toBeLessThan(1000);
+    expect(pairing.verifyClientCertificate(client.id, client.certificate)).toBe(true);
+  });
+
+  it('verifies challenges signed with the paired key', async () => {
+    const keys = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const session = pairing.generatePairingPin();
+    const client = await pairing.completePairing({
+      pin: session.pin,
+      ...device,
+      public_key: keys.publicKey.export({ type: 'spki', format: 'pem' }).toString()
+    }, session.id);
+
+    const der = sign('sha256', Buffer.from('nonce'), keys.privateKey).toString('base64');
+    const raw = sign('sha256', Buffer.from('nonce'), { key: keys.privateKey, dsaEncoding: 'ieee-p1363' }).toString('base64');
+    const other = sign('sha256', Buffer.from('nonce'), generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey);
+
+    expect(pairing.verifyClientSignature(client.id, 'nonce', der)).toBe(true);
+    expect(pairing.verifyClientSignature(client.id, 'nonce', raw)).toBe(true);
+    expect(pairing.verifyClientSignature(client.id, 'other nonce', der)).toBe(false);
+    expect(pairing.verifyClientSignature(client.id, 'nonce', other.toString('base64'))).toBe(false);
+
+    pairing.revokeClient(client.id);
+    expect(pairing.verifyClientSignature(client.id, 'nonce', der)).toBe(false);
+  });
+
+  it('verifies Ed25519 signatures', async () => {
+    const keys = generateKeyPairSync('ed25519');
+    const session = pairing.generatePairingPin();
+    const client = await pairing.completePairing({
+      pin: session.pin,
+      ...device,
+      public_key: keys.publicKey.export({ type: 'spki', format: 'pem' }).toString()
+    }, session.id);
+
+    const signature = sign(null, Buffer.from('nonce'), keys.privateKey).toString('base64');
+    expect(pairing.verifyClientSignature(client.id, 'nonce', signature)).toBe(true);
+  });
+
+  it('puts the certificate of a revoked client on the CRL', async () => {
+    const session = pairing.generatePairingPin();
+    const client = await pairing.completePairing({ pin: session.pin, ...device }, session.id);
+
+    expect(pairing.revokeClient(client.id)).toBe(true);
+
+    expect(database.isCertificateRevoked(client.certificate_serial!)).toBe(true);
+    expect(pairing.verifyClientCertificate(client.id, client.certificate)).toBe(false);
+    expect(await pairing.getCertificateRevocationList()).toMatch(/^-----BEGIN X509 CRL-----/);
+  });
+
+  it('assigns areas and a dashboard to a paired client', async () => {
+    const session = pairing.generatePairingPin();
+    const client = await pairing.completePairing({ pin: session.pin, ...device }, session.id);
+
+    const updated = pairing.updateClient(client.id, {
+      name: 'Hallway Tablet',
+      device_type: 'phone',
+      assigned_areas: ['area_1', 'area_2'],
+      assigned_dashboard: 'dashboard-1'
+    });
+
+    expect(updated).toMatchObject({ name: 'Hallway Tablet', device_type: 'phone' });
+    expect(updated!.metadata).toMatchObject({ assigned_areas: ['area_1', 'area_2'], assigned_dashboard: 'dashboard-1' });
+
+    const cleared = pairing.updateClient(client.id, { assigned_dashboard: null });
+    expect(cleared!.name).toBe('Hallway Tablet');
+    expect(cleared!.metadata).not.toHaveProperty('assigned_dashboard');
+    expect(pairing.updateClient('missing', { name: 'Nobody' })).toBeNull();
+  });
+
+  it('rejects a PIN of another session', async () => {
+    const session = pairing.generatePairingPin();
+    const other = pairing.generatePairingPin();
+
+    await expect(pairing.completePairing({ pin: other.pin, ...device }, session.id))
+      .rejects.toThrow('Invalid or expired PIN');
+  });
+
+  describe('with approval', () => {
+    const actions = () => (db.prepare('SELECT action FROM activity_log ORDER BY id').all() as any[])
+      .map(row => row.action);
+
+    it('provisions the device only once an admin approves it', async () => {
+      const session = pairing.generatePairingPin();
+
+      const pending = await pairing.requestApproval({ pin: session.pin, ...device }, session.id, '192.168.1.20');
+      expect(pending).toMatchObject({
+        approval_status: 'pending_approval',
+        request: { device_name: 'Kitchen Tablet', device_type: 'tablet', ip_address: '192.168.1.20' }
+      });
+      expect(pairing.getAllClients()).toHaveLength(0);
+      await expect(pairing.completePairing({ pin: session.pin, ...device }, session.id))
+        .rejects.toThrow('Invalid or expired PIN');
+      expect(await pairing.getApprovalResult({ pin: session.pin, ...device }, session.id)).toBeNull();
+
+      const client = await pairing.approvePairing(session.id);
+
+      expect(await pairing.getApprovalResult({ pin: session.pin, ...device }, session.id)).toMatchObject({ id: client.id });
+      await expect(pairing.getApprovalResult({ pin: session.pin, ...device, public_key: createPublicKey() }, session.id))
+        .rejects.toThrow('Invalid or expired PIN');
+      expect(actions()).toEqual(['pairing_requested', 'pairing_completed', 'pairing_approved']);
+    });
+
+    it('records rejections', async () => {
+      const session = pairing.generatePairingPin();
+      await pairing.requestApproval({ pin: session.pin, ...device }, session.id);
+
+      pairing.rejectPairing(session.id);
+
+      await expect(pairing.getApprovalResult({ pin: session.pin, ...device }, session.id))
+        .rejects.toThrow('Pairing request was rejected');
+      await expect(pairing.approvePairing(session.id)).rejects.toThrow('no request awaiting approval');
+      expect(actions()).toEqual(['pairing_requested', 'pairing_rejected']);
+    });
+
+    it('records requests that were not decided in time', async () => {
+      const session = pairing.generatePairingPin();
+      await pairing.requestApproval({ pin: session.pin, ...device }, session.id);
+
+      jest.advanceTimersByTime(6 * 60 * 1000);
+
+      expect(actions()).toEqual(['pairing_requested', 'pairing_timeout']);
+      expect(pairing.getPairingSession(session.id)).toBeNull();
+    });
+  });
+
+  it('cancels only unused sessions', async () => {
+    const session = pairing.generatePairingPin();
+    const used = pairing.generatePairingPin();
+    await pairing.completePairing({ pin: used.pin, ...device }, used.id);
+
+    expect(pairing.cancelPairing(session.id)).toBe(true);
+    expect(pairing.getPairingSession(session.id)).toBeNull();
+    expect(pairing.cancelPairing(used.id)).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Realtime Service Call Tests
+ */
+
+import { callServiceAs, getAllowedServiceDomains, toServiceCallError } from '../services/service-calls';
+import { HomeAssistantError } from '../errors/AppError';
+
+describe('callServiceAs', () => {
+  const callService = jest.fn();
+  const haInstances = {
+    get: jest.fn((id: string) => (id === 'default' || id === 'cottage' ? { service: { callService } } : undefined))
+  };
+
+  beforeEach(() => {
+    callService.mockReset();
+    haInstances.get.mockClear();
+  });
+
+  it('calls the instance the target entities belong to with plain entity IDs', async () => {
+    callService.mockResolvedValue({ context: { id: 'ctx' } });
+
+    const result = await callServiceAs(haInstances as any, 'user', {
+      domain: 'light',
+      service: 'turn_on',
+      service_data: { brightness: 200 },
+      target: { entity_id: ['cottage:light.porch', 'cottage:light.hall'] }
+    });
+
+    expect(result).toEqual({ context: { id: 'ctx' } });
+    expect(haInstances.get).toHaveBeenCalledWith('cottage');
+    expect(callService).toHaveBeenCalledWith('light', 'turn_on', { brightness: 200 }, {
+      entity_id: ['light.porch', 'light.hall']
+    });
+  });
+
+  it('rejects domains outside the role allowlist', async () => {
+    const call = callServiceAs(haInstances as any, 'user', {
+      domain: 'lock',
+      service: 'unlock',
+      target: { entity_id: 'lock.front_door' }
+    });
+
+    await expect(call).rejects.toThrow('Role "user" may not call lock services');
+    expect(callService).not.toHaveBeenCalled();
+    await expect(callServiceAs(haInstances as any, undefined, { domain: 'light', service: 'turn_on' }))
+      .rejects.toThrow('may not call');
+  });
+
+  it('rejects targets spread over several instances', async () => {
+    const call = callServiceAs(haInstances as any, 'admin', {
+      domain: 'light',
+      service: 'turn_off',
+      target: { entity_id: ['light.kitchen', 'cottage:light.porch'] }
+    });
+
+    await expect(call).rejects.toThrow('one Home Assistant instance');
+  });
+
+  it('narrows the allowlist with SERVICE_CALL_DOMAINS', () => {
+    expect(getAllowedServiceDomains('admin', { SERVICE_CALL_DOMAINS: 'light, lock' })).toEqual(['light', 'lock']);
+    expect(getAllowedServiceDomains('user', { SERVICE_CALL_DOMAINS: 'light,lock' })).toEqual(['light']);
+  });
+
+  it('maps errors to typed codes', () => {
+    expect(toServiceCallError(new HomeAssistantError('not_found', 'Service not found'))).toEqual({
+      code: 'not_found',
+      message: 'Service not found'
+    });
+    expect(toServiceCallError(new Error('boom'))).toEqual({ code: 'internal_error', message: 'Service call failed' });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Supervisor Mode Tests
+ * Runs against a local stand-in for the Supervisor's Home Assistant proxy
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { getSupervisorOptionsFromEnv, getSupervisorInstanceConfig } from '../config/supervisor';
+import { HAInstanceManager, DEFAULT_INSTANCE_ID } from '../services/ha-instances';
+
+const SUPERVISOR_TOKEN = 'supervisor_token';
+
+const states = [{
+  entity_id: 'light.kitchen',
+  state: 'on',
+  attributes: {},
+  last_changed: '2024-01-01T00:00:00.000Z',
+  last_updated: '2024-01-01T00:00:00.000Z',
+  context: { id: 'ctx' }
+}];
+
+describe('Supervisor mode', () => {
+  let server: Server;
+  let wss: WebSocket.Server;
+  let baseUrl: string;
+  let manager: HAInstanceManager;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    // Only /core/api/* and /core/websocket exist, as behind the real proxy
+    server = createServer((req, res) => {
+      if (req.headers.authorization !== `Bearer ${SUPERVISOR_TOKEN}`) {
+        res.writeHead(401).end();
+      } else if (req.url === '/core/api/states') {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(states));
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    wss = new WebSocket.Server({ server, path: '/core/websocket' });
+
+    wss.on('connection', (ws) => {
+      ws.send(JSON.stringify({ type: 'auth_required' }));
+
+      ws.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.type === 'auth') {
+          ws.send(JSON.stringify({ type: message.access_token === SUPERVISOR_TOKEN ? 'auth_ok' : 'auth_invalid' }));
+        } else if (message.type === 'get_states') {
+          ws.send(JSON.stringify({ id: message.id, type: 'result', success: true, result: states }));
+        } else {
+          ws.send(JSON.stringify({ id: message.id, type: 'result', success: true, result: [] }));
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    manager = new HAInstanceManager(null);
+  });
+
+  afterEach(async () => {
+    manager.disconnectAll();
+    wss.clients.forEach((client) => client.terminate());
+    await new Promise<void>((resolve) => wss.close(() => server.close(() => resolve())));
+    jest.restoreAllMocks();
+  });
+
+  const waitFor = async (condition: () => boolean, timeout = 2000): Promise<void> => {
+    const started = Date.now();
+    while (!condition()) {
+      if (Date.now() - started > timeout) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  it('is only enabled when SUPERVISOR_TOKEN is set', () => {
+    expect(getSupervisorOptionsFromEnv({})).toBeNull();
+    expect(getSupervisorOptionsFromEnv({ SUPERVISOR_TOKEN })).toEqual({
+      token: SUPERVISOR_TOKEN,
+      coreUrl: 'http://supervisor/core'
+    });
+  });
+
+  it('connects to the proxied websocket and REST API with the Supervisor token', async () => {
+    const options = getSupervisorOptionsFromEnv({ SUPERVISOR_TOKEN, SUPERVISOR_URL: `${baseUrl}/` })!;
+    manager.sync([getSupervisorInstanceConfig(options, DEFAULT_INSTANCE_ID)]);
+    const service = manager.getDefault()!.service;
+
+    await waitFor(() => service.hasStateMirror());
+    expect(service.getMirroredState('light.kitchen')?.state).toBe('on');
+
+    const fetched = await service.fetchStates();
+    expect(fetched.map(state => state.entity_id)).toEqual(['light.kitchen']);
+  });
+});
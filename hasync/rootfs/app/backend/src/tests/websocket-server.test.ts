@@ -0,0 +1,194 @@
+/**
+ * Paired Device WebSocket Server Tests
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { Server as SocketIOServer } from 'socket.io';
+import { WebSocketServer } from '../websocket/server';
+import { ClientPresenceTracker } from '../services/client-presence';
+import { createFakeHAService } from './helpers/home-assistant';
+import { createFakePairingService, makeClient } from './helpers/pairing';
+
+// Resolves with the next message, parsed when it is JSON
+const nextMessage = (socket: WebSocket): Promise<any> => new Promise(resolve => {
+  socket.once('message', data => {
+    const text = data.toString();
+    resolve(text.startsWith('{') ? JSON.parse(text) : text);
+  });
+});
+
+// Closes the socket and waits until the server has seen it go
+const close = (socket: WebSocket): Promise<void> => new Promise(resolve => {
+  socket.once('close', () => setImmediate(resolve));
+  socket.close();
+});
+
+describe('WebSocketServer', () => {
+  let server: Server;
+  let io: SocketIOServer;
+  let wsServer: WebSocketServer;
+  let baseUrl: string;
+  const haService = createFakeHAService();
+  // Stands in for a signature: the nonce reversed
+  const sign = (nonce: string) => Buffer.from(nonce, 'base64').reverse().toString('base64');
+  const assignments: Record<string, Record<string, any>> = {
+    client_1: { assigned_areas: ['area_1'], assigned_dashboard: 'dashboard_1' }
+  };
+  const pairingService = createFakePairingService({
+    verifyClientCertificate: (_clientId: string, certificate: string) => certificate === 'valid',
+    verifyClientSignature: (_clientId: string, nonce: string, signature: string) => signature === sign(nonce),
+    getClient: (clientId: string) => makeClient({ id: clientId, metadata: assignments[clientId] })
+  });
+
+  // Connects and completes the signature challenge
+  const authenticate = async (clientId: string): Promise<WebSocket> => {
+    const device = new WebSocket(`${baseUrl}/ws`);
+    await nextMessage(device);
+    device.send(JSON.stringify({ type: 'auth', payload: { client_id: clientId } }));
+    const challenge = await nextMessage(device);
+    device.send(JSON.stringify({ type: 'auth', payload: { client_id: clientId, signature: sign(challenge.payload.nonce) } }));
+    await nextMessage(device);
+    return device;
+  };
+
+  beforeEach(async () => {
+    server = createServer();
+    io = new SocketIOServer(server);
+    wsServer = new WebSocketServer(server, pairingService, haService, {
+      presence: new ClientPresenceTracker(() => {})
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    wsServer.close();
+    io.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('shares the HTTP server with Socket.IO', async () => {
+    const device = new WebSocket(`${baseUrl}/ws`);
+    expect(await nextMessage(device)).toMatchObject({ type: 'connected' });
+
+    // Engine.IO open packet
+    const admin = new WebSocket(`${baseUrl}/socket.io/?EIO=4&transport=websocket`);
+    expect(await nextMessage(admin)).toMatch(/^0\{"sid"/);
+
+    await close(device);
+    await close(admin);
+  });
+
+  it('answers frames that are not message objects with an error', async () => {
+    const device = new WebSocket(`${baseUrl}/ws`);
+    await nextMessage(device);
+
+    for (const frame of ['null', '42', '"auth"', '[]']) {
+      device.send(frame);
+      expect(await nextMessage(device)).toMatchObject({ type: 'error', payload: { error: 'Invalid message format' } });
+    }
+
+    // The server is still up and serving the connection
+    device.send(JSON.stringify({ type: 'ping' }));
+    expect(await nextMessage(device)).toMatchObject({ type: 'pong' });
+    await close(device);
+  });
+
+  it('authenticates devices and sends state changes of the attached connection', async () => {
+    const device = new WebSocket(`${baseUrl}/ws`);
+    await nextMessage(device);
+
+    device.send(JSON.stringify({ type: 'auth', payload: { client_id: 'client_1' } }));
+    const challenge = await nextMessage(device);
+    expect(challenge).toMatchObject({ type: 'auth_challenge', payload: { client_id: 'client_1' } });
+
+    const signature = sign(challenge.payload.nonce);
+    device.send(JSON.stringify({ type: 'auth', payload: { client_id: 'client_1', signature } }));
+    expect(await nextMessage(device)).toMatchObject({ type: 'auth_ok' });
+
+    device.send(JSON.stringify({ type: 'subscribe_entities', payload: { entity_ids: ['light.kitchen'] } }));
+    expect(await nextMessage(device)).toMatchObject({ type: 'subscribed' });
+
+    const update = nextMessage(device);
+    haService.fire('state_changed', { entity_id: 'light.kitchen', old_state: null, new_state: { state: 'on' } });
+    expect(await update).toMatchObject({
+      type: 'entity_update',
+      payload: { entity_id: 'light.kitchen', state: { state: 'on' } }
+    });
+
+    // Detaching stops listening to the replaced connection
+    wsServer.detach();
+    expect(haService.listenerCount('state_changed')).toBe(0);
+    await close(device);
+  });
+
+  it('sends config updates only to the clients they affect', async () => {
+    const assigned = await authenticate('client_1');
+    const other = await authenticate('client_2');
+    const update = (resource: 'area' | 'dashboard', id: string) =>
+      wsServer.notifyConfigUpdate({ resource, id, action: 'updated', version: 2, timestamp: new Date().toISOString() });
+    // A pong shows nothing was sent before it
+    const nextAfterPing = (device: WebSocket) => {
+      device.send(JSON.stringify({ type: 'ping' }));
+      return nextMessage(device);
+    };
+
+    let received = nextMessage(assigned);
+    update('area', 'area_1');
+    expect(await received).toMatchObject({ type: 'config_update', payload: { resource: 'area', id: 'area_1' } });
+    received = nextMessage(assigned);
+    update('dashboard', 'dashboard_1');
+    expect(await received).toMatchObject({ type: 'config_update', payload: { resource: 'dashboard' } });
+    expect(await nextAfterPing(other)).toMatchObject({ type: 'pong' });
+
+    // Subscribing to an area is enough to hear about it
+    other.send(JSON.stringify({ type: 'subscribe_entities', payload: { area_ids: ['area_2'] } }));
+    expect(await nextMessage(other)).toMatchObject({ type: 'subscribed' });
+    received = nextMessage(other);
+    update('area', 'area_2');
+    expect(await received).toMatchObject({ type: 'config_update', payload: { id: 'area_2' } });
+    expect(await nextAfterPing(assigned)).toMatchObject({ type: 'pong' });
+
+    await close(assigned);
+    await close(other);
+  });
+
+  it('rejects signatures of anything but the outstanding challenge', async () => {
+    const device = new WebSocket(`${baseUrl}/ws`);
+    await nextMessage(device);
+
+    device.send(JSON.stringify({ type: 'auth', payload: { client_id: 'client_1' } }));
+    await nextMessage(device);
+    device.send(JSON.stringify({ type: 'auth', payload: { client_id: 'client_1', signature: sign('c3RhbGU=') } }));
+    expect(await nextMessage(device)).toMatchObject({ type: 'error', payload: { error: 'Invalid credentials' } });
+    await new Promise(resolve => device.once('close', resolve));
+
+    // No challenge was requested on this connection
+    const replay = new WebSocket(`${baseUrl}/ws`);
+    await nextMessage(replay);
+    replay.send(JSON.stringify({ type: 'auth', payload: { client_id: 'client_1', signature: sign('c3RhbGU=') } }));
+    expect(await nextMessage(replay)).toMatchObject({ type: 'error', payload: { error: 'Invalid credentials' } });
+  });
+
+  it('only accepts certificates in compatibility mode', async () => {
+    const device = new WebSocket(`${baseUrl}/ws`);
+    expect(await nextMessage(device)).toMatchObject({ payload: { auth_methods: ['signature'] } });
+
+    device.send(JSON.stringify({ type: 'auth', payload: { client_id: 'client_1', certificate: 'valid' } }));
+    expect(await nextMessage(device)).toMatchObject({ type: 'error' });
+
+    wsServer.close();
+    wsServer = new WebSocketServer(server, pairingService, null, {
+      presence: new ClientPresenceTracker(() => {}),
+      allowCertificateAuth: true
+    });
+    const legacy = new WebSocket(`${baseUrl}/ws`);
+    await nextMessage(legacy);
+
+    legacy.send(JSON.stringify({ type: 'auth', payload: { client_id: 'client_1', certificate: 'valid' } }));
+    expect(await nextMessage(legacy)).toMatchObject({ type: 'auth_ok' });
+    await close(legacy);
+  });
+});
@@ -14,6 +14,14 @@ export interface HAEntity {
     parent_id?: string;
     user_id?: string;
   };
+  // Set on states returned by the API; see HAInstanceManager
+  instance_id?: string;
+}
+
+// Last known entity state served from entity_cache while HA is unreachable
+export interface CachedHAEntity extends Omit<HAEntity, 'context'> {
+  stale: true;
+  cachedAt: string;
 }
 
 export interface HAArea {
@@ -23,11 +31,98 @@ export interface HAArea {
   aliases?: string[];
 }
 
+export interface HADevice {
+  id: string;
+  name: string | null;
+  name_by_user?: string | null;
+  area_id: string | null;
+  manufacturer?: string | null;
+  model?: string | null;
+  disabled_by?: string | null;
+}
+
+export interface HAEntityRegistryEntry {
+  entity_id: string;
+  device_id: string | null;
+  area_id: string | null;
+  platform: string;
+  name?: string | null;
+  disabled_by?: string | null;
+  hidden_by?: string | null;
+}
+
+// HAsync area as returned by the /api/areas endpoints
+export interface Area {
+  id: string;
+  name: string;
+  entityIds: string[];
+  isEnabled: boolean;
+  // Bumped on every change, see config_update
+  version?: number;
+}
+
+// Home Assistant changes to a linked area awaiting admin review
+export interface AreaLinkDiff {
+  added: string[];
+  removed: string[];
+  name?: { from: string; to: string };
+  areaRemoved?: boolean;
+}
+
+export interface AreaLink {
+  areaId: string;
+  haAreaId: string;
+  linked: boolean;
+  haName: string;
+  haEntityIds: string[];
+  pendingDiff: AreaLinkDiff | null;
+  diffDetectedAt: number | null;
+}
+
+// HAsync dashboards - views and cards are stored in dashboards.config
+export interface DashboardCard {
+  id: string;
+  type: string;
+  entity?: string;
+  entities?: string[];
+  config?: Record<string, any>;
+}
+
+export interface DashboardView {
+  id: string;
+  title: string;
+  type: 'grid' | 'panel' | 'masonry';
+  cards: DashboardCard[];
+}
+
+export interface Dashboard {
+  id: string;
+  name: string;
+  views: DashboardView[];
+  isDefault: boolean;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+  // Bumped on every change, see config_update
+  version?: number;
+}
+
+// Realtime notice that an area or dashboard was written
+export interface ConfigUpdatePayload {
+  resource: 'area' | 'dashboard';
+  id: string;
+  action: 'created' | 'updated' | 'deleted';
+  // null once deleted
+  version: number | null;
+  timestamp: string;
+}
+
 export interface HADashboard {
   id: string;
   title: string;
   icon?: string;
   url_path: string;
+  mode?: 'storage' | 'yaml';
   require_admin?: boolean;
   show_in_sidebar?: boolean;
 }
@@ -43,13 +138,34 @@ export interface Client {
   last_seen: number;
   is_active: boolean;
   metadata?: Record<string, any>;
+  // Of the X.509 certificate issued by the HAsync CA
+  certificate_serial?: string | null;
+  certificate_expires_at?: number | null;
+}
+
+// Set by admins after pairing; areas and dashboard are kept in metadata
+export interface ClientUpdate {
+  name?: string;
+  device_type?: string;
+  assigned_areas?: string[];
+  // null clears the assignment
+  assigned_dashboard?: string | null;
 }
 
 export interface PairingRequest {
   pin: string;
   device_name: string;
   device_type: string;
-  public_key: string;
+  // SPKI PEM; either this or a CSR
+  public_key?: string;
+  csr?: string;
+}
+
+export interface RevokedCertificate {
+  serial_number: string;
+  client_id: string | null;
+  reason: string | null;
+  revoked_at: number;
 }
 
 export interface PairingSession {
@@ -57,6 +173,24 @@ export interface PairingSession {
   pin: string;
   expires_at: number;
   created_at: number;
+  used?: boolean;
+  // Client created when the session was used
+  client_id?: string | null;
+  // Approval mode: set once a device submitted the PIN
+  approval_status?: PairingApprovalStatus | null;
+  request?: PairingApprovalRequest | null;
+}
+
+export type PairingApprovalStatus = 'pending_approval' | 'approved' | 'rejected' | 'timed_out';
+
+// What a device submitted for approval; the client is created from it
+export interface PairingApprovalRequest {
+  device_name: string;
+  device_type: string;
+  // SPKI PEM, taken from the CSR if one was sent
+  public_key: string;
+  ip_address?: string;
+  requested_at: number;
 }
 
 // WebSocket Types
@@ -70,7 +204,20 @@ export interface WSAuthMessage extends WSMessage {
   type: 'auth';
   payload: {
     client_id: string;
-    certificate: string;
+    // Base64 signature of the challenge nonce with the paired key
+    signature?: string;
+    // Legacy bearer credential, only accepted in compatibility mode
+    certificate?: string;
+  };
+}
+
+// Sent in reply to an auth message with only the client ID
+export interface WSAuthChallengeMessage extends WSMessage {
+  type: 'auth_challenge';
+  payload: {
+    client_id: string;
+    nonce: string;
+    expires_at: number;
   };
 }
 
@@ -79,9 +226,51 @@ export interface WSEntityUpdateMessage extends WSMessage {
   payload: {
     entity_id: string;
     state: HAEntity;
+    // Position in the replay buffer
+    seq?: number;
   };
 }
 
+// Changed fields of an entity, see EntityDeltaTracker
+export interface EntityDelta {
+  entityId: string;
+  // Incremented on every change of the entity; restarts at 1 with the server
+  version: number;
+  // Set when throttling merged several versions into one delta; the client
+  // must be at this version to apply it (otherwise at version - 1)
+  baseVersion?: number;
+  // Only the fields that changed
+  state?: string;
+  attributes?: Record<string, any>;
+  removedAttributes?: string[];
+  last_changed?: string;
+  last_updated?: string;
+  // The entity no longer exists
+  removed?: true;
+  timestamp: string;
+  // Position in the replay buffer
+  seq?: number;
+}
+
+// Entity state for resyncing after a delta version gap
+export interface EntitySnapshotEntry {
+  entityId: string;
+  version: number;
+  // null once the entity was removed
+  state: HAEntity | null;
+}
+
+// Sent instead of entity_update to clients subscribed with `delta: true`
+export interface WSEntityDeltaMessage extends WSMessage {
+  type: 'entity_delta';
+  payload: EntityDelta;
+}
+
+export interface WSConfigUpdateMessage extends WSMessage {
+  type: 'config_update';
+  payload: ConfigUpdatePayload;
+}
+
 // API Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -109,11 +298,52 @@ export interface ServerConfig {
   database: DatabaseConfig;
 }
 
+// A named Home Assistant connection
+export interface HAInstanceConfig {
+  id: string;
+  name: string;
+  url: string;
+  token: string;
+  // 'addon' connects through the Supervisor proxy with the Supervisor token
+  mode?: 'addon' | 'standalone';
+}
+
+// Why a connection test failed
+export type HAConnectionTestCategory =
+  | 'invalid_url'
+  | 'unreachable'
+  | 'timeout'
+  | 'tls_error'
+  | 'auth_invalid'
+  | 'forbidden'
+  | 'not_home_assistant'
+  | 'http_error';
+
+export interface HAConnectionTestResult {
+  success: boolean;
+  category?: HAConnectionTestCategory;
+  message: string;
+  version?: string;
+  locationName?: string;
+  entityCount?: number;
+  latencyMs: number;
+}
+
+export interface HAInstanceStatus {
+  id: string;
+  name: string;
+  url: string;
+  status: 'connected' | 'disconnected';
+  stateMirror: boolean;
+  entityCount: number;
+}
+
 export interface HAConfig {
   url: string;
   token?: string;
   supervisorToken?: string;
   mode: 'addon' | 'standalone';
+  requestTimeout?: number; // WebSocket request timeout in ms
 }
 
 export interface SecurityConfig {
@@ -77,10 +77,11 @@ export function configureDatabaseSecurity(db: Database.Database): void {
 export class InputSanitizer {
   /**
    * Validate entity ID format
-   * Format: domain.name (e.g., light.living_room)
+   * Format: domain.name (e.g., light.living_room), optionally prefixed with
+   * the HA instance it belongs to (e.g., cottage:light.living_room)
    */
   static validateEntityId(entityId: string): boolean {
-    const entityIdPattern = /^[a-z_]+\.[a-z0-9_]+$/;
+    const entityIdPattern = /^([a-z0-9_]{1,32}:)?[a-z_]+\.[a-z0-9_]+$/;
     return typeof entityId === 'string' && entityIdPattern.test(entityId);
   }
 
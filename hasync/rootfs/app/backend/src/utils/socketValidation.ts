@@ -5,10 +5,88 @@
 
 import { z } from 'zod';
 
+/**
+ * Entity subscription filter - entity IDs, globs like `sensor.*_power` and
+ * HAsync area IDs
+ */
+const entityIdSchema = z.string().regex(/^([a-z0-9_]{1,32}:)?[a-z_]+\.[a-z0-9_]+$/);
+const intervalMsSchema = z.number().int().min(0).max(60000);
+
+export const entityFilterSchema = z.object({
+  entity_ids: z.array(entityIdSchema).max(500).optional(),
+  patterns: z.array(z.string().regex(/^[a-z0-9_.:*?]{1,100}$/)).max(50).optional(),
+  area_ids: z.array(z.string().regex(/^[a-zA-Z0-9_-]{1,100}$/)).max(50).optional(),
+});
+
+/**
+ * Entity subscription - the filter plus `delta` to receive only changed
+ * fields with a version number
+ */
+export const entitySubscribeSchema = entityFilterSchema.extend({
+  delta: z.boolean().optional(),
+});
+
+/**
+ * Snapshot request after a delta version gap - all subscribed entities if
+ * no IDs are given
+ */
+export const snapshotRequestSchema = entityFilterSchema.pick({ entity_ids: true });
+
+/**
+ * Minimum interval between updates of an entity, overall, per domain and
+ * per entity ID; 0 removes the limit
+ */
+export const throttleSchema = z.object({
+  interval_ms: intervalMsSchema.optional(),
+  domains: z.record(z.string().regex(/^[a-z_]{1,50}$/), intervalMsSchema)
+    .refine(domains => Object.keys(domains).length <= 50, 'Too many domains')
+    .optional(),
+  entities: z.record(entityIdSchema, intervalMsSchema)
+    .refine(entities => Object.keys(entities).length <= 500, 'Too many entities')
+    .optional(),
+});
+
+/**
+ * Resume after reconnecting - the last sequence number seen and the epoch
+ * it belongs to
+ */
+export const resumeSchema = z.object({
+  last_seq: z.number().int().min(0),
+  epoch: z.string().regex(/^[a-f0-9]{16}$/).optional(),
+});
+
+/**
+ * Device authentication - the client ID alone requests a challenge, the
+ * signed challenge or (legacy) the certificate completes it
+ */
+export const authSchema = z.object({
+  client_id: z.string().min(1).max(100),
+  signature: z.string().regex(/^[A-Za-z0-9+/_-]+={0,2}$/).max(2048).optional(),
+  certificate: z.string().min(1).max(16384).optional(),
+});
+
+const idListSchema = (item: z.ZodString) => z.union([item, z.array(item).min(1).max(100)]);
+
+/**
+ * Service call - target entity IDs may be namespaced by instance
+ */
+export const serviceCallSchema = z.object({
+  domain: z.string().regex(/^[a-z_]{1,50}$/),
+  service: z.string().regex(/^[a-z0-9_]{1,100}$/),
+  service_data: z.record(z.string(), z.any()).optional(),
+  target: z.object({
+    entity_id: idListSchema(entityIdSchema).optional(),
+    area_id: idListSchema(z.string().regex(/^[a-z0-9_]{1,100}$/)).optional(),
+    device_id: idListSchema(z.string().regex(/^[a-f0-9]{1,64}$/)).optional(),
+  }).strict().optional(),
+  instance_id: z.string().regex(/^[a-z0-9_]{1,32}$/).optional(),
+});
+
 /**
  * Subscribe event validation schema
+ * For `entities`, the filter fields narrow the updates sent
  */
-export const subscribeSchema = z.object({
+export const subscribeSchema = entitySubscribeSchema.extend({
   type: z.enum(['entities', 'areas', 'dashboards', 'clients']),
   id: z.string().optional(),
 });
@@ -61,6 +139,55 @@ export function validateEntityUpdate(data: unknown): z.infer<typeof entityUpdate
   return entityUpdateSchema.parse(data);
 }
 
+/**
+ * Validate an entity subscription filter
+ */
+export function validateEntityFilter(data: unknown): z.infer<typeof entityFilterSchema> {
+  return entityFilterSchema.parse(data ?? {});
+}
+
+/**
+ * Validate an entity subscription
+ */
+export function validateEntitySubscribe(data: unknown): z.infer<typeof entitySubscribeSchema> {
+  return entitySubscribeSchema.parse(data ?? {});
+}
+
+/**
+ * Validate a snapshot request
+ */
+export function validateSnapshotRequest(data: unknown): z.infer<typeof snapshotRequestSchema> {
+  return snapshotRequestSchema.parse(data ?? {});
+}
+
+/**
+ * Validate throttle settings
+ */
+export function validateThrottle(data: unknown): z.infer<typeof throttleSchema> {
+  return throttleSchema.parse(data ?? {});
+}
+
+/**
+ * Validate a resume request
+ */
+export function validateResume(data: unknown): z.infer<typeof resumeSchema> {
+  return resumeSchema.parse(data);
+}
+
+/**
+ * Validate a device auth message
+ */
+export function validateAuth(data: unknown): z.infer<typeof authSchema> {
+  return authSchema.parse(data);
+}
+
+/**
+ * Validate a service call
+ */
+export function validateServiceCall(data: unknown): z.infer<typeof serviceCallSchema> {
+  return serviceCallSchema.parse(data);
+}
+
 /**
  * Validate pairing event data
  */
@@ -249,4 +249,4 @@ setInterval(() => {
       requestCounts.delete(ip);
     }
   }
-}, 60000); // Clean up every minute
+}, 60000).unref(); // Clean up every minute
@@ -5,8 +5,9 @@
 
 import { z } from 'zod';
 
-// Entity ID regex - alphanumeric, dots, underscores, hyphens only
-const ENTITY_ID_REGEX = /^[a-zA-Z0-9._-]+$/;
+// Entity ID regex - alphanumeric, dots, underscores, hyphens, plus the
+// colon separating an HA instance prefix (e.g. cottage:light.kitchen)
+export const ENTITY_ID_REGEX = /^[a-zA-Z0-9._:-]+$/;
 // Safe string regex - alphanumeric, spaces, underscores, hyphens only
 const SAFE_STRING_REGEX = /^[a-zA-Z0-9\s_-]+$/;
 // URL regex - basic URL validation
@@ -72,13 +73,51 @@ export const areaIdParamSchema = z.object({
 
 /**
  * Dashboard Schemas
+ * Mirror the frontend Dashboard/DashboardView/DashboardCard types
  */
+export const dashboardCardSchema = z.object({
+  id: z.string()
+    .min(1, 'Card ID is required')
+    .max(100),
+  // Lovelace card types, including custom ones like custom:mushroom-card
+  type: z.string()
+    .min(1, 'Card type is required')
+    .max(100)
+    .regex(/^[a-zA-Z0-9:_-]+$/, 'Card type contains invalid characters'),
+  entity: z.string().regex(ENTITY_ID_REGEX, 'Invalid entity ID format').optional(),
+  entities: z.array(
+    z.string().regex(ENTITY_ID_REGEX, 'Invalid entity ID format')
+  ).optional(),
+  config: z.record(z.string(), z.unknown()).optional()
+});
+
+export const dashboardViewSchema = z.object({
+  id: z.string()
+    .min(1, 'View ID is required')
+    .max(100),
+  title: z.string()
+    .min(1, 'View title is required')
+    .max(100, 'View title must be less than 100 characters'),
+  type: z.enum(['grid', 'panel', 'masonry']),
+  cards: z.array(dashboardCardSchema).max(200, 'Too many cards in view')
+}).refine(
+  (view) => new Set(view.cards.map(card => card.id)).size === view.cards.length,
+  'Card IDs must be unique within a view'
+);
+
+const dashboardViewsSchema = z.array(dashboardViewSchema)
+  .max(50, 'Too many views')
+  .refine(
+    (views) => new Set(views.map(view => view.id)).size === views.length,
+    'View IDs must be unique within a dashboard'
+  );
+
 export const createDashboardSchema = z.object({
   name: z.string()
     .min(1, 'Dashboard name is required')
     .max(100, 'Dashboard name must be less than 100 characters')
     .regex(SAFE_STRING_REGEX, 'Dashboard name contains invalid characters'),
-  config: z.record(z.string(), z.unknown()).optional(),
+  views: dashboardViewsSchema.optional().default([]),
   isDefault: z.boolean().optional().default(false)
 });
 
@@ -88,12 +127,12 @@ export const updateDashboardSchema = z.object({
     .max(100)
     .regex(SAFE_STRING_REGEX, 'Dashboard name contains invalid characters')
     .optional(),
-  config: z.record(z.string(), z.unknown()).optional(),
+  views: dashboardViewsSchema.optional(),
   isDefault: z.boolean().optional()
 });
 
 export const dashboardIdParamSchema = z.object({
-  dashboard_id: z.string()
+  id: z.string()
     .min(1)
     .regex(/^[a-zA-Z0-9_-]+$/, 'Invalid dashboard ID format')
 });
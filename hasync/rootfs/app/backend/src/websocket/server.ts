@@ -3,29 +3,98 @@
  */
 
 import WebSocket from 'ws';
+import { randomUUID, randomBytes } from 'crypto';
 import { Server as HTTPServer } from 'http';
+import { Server as HTTPSServer } from 'https';
+import { Duplex } from 'stream';
 import { PairingService } from '../services/pairing';
 import { HomeAssistantService } from '../services/homeassistant';
-import { WSMessage, WSAuthMessage, WSEntityUpdateMessage } from '../types';
+import { EntitySubscriptionRegistry, AreaEntityResolver } from '../services/entity-subscriptions';
+import { EntityDeltaTracker, mergeEntityDeltas } from '../services/entity-deltas';
+import { EntityUpdateThrottler, getDeviceThrottleDefaults, ThrottleCounters } from '../services/entity-throttle';
+import { RealtimeEventBuffer } from '../services/event-replay';
+import { ClientPresenceTracker } from '../services/client-presence';
+import {
+  WSMessage,
+  WSAuthMessage,
+  WSAuthChallengeMessage,
+  WSEntityUpdateMessage,
+  WSEntityDeltaMessage,
+  WSConfigUpdateMessage,
+  ConfigUpdatePayload
+} from '../types';
+import {
+  validateAuth,
+  validateEntityFilter,
+  validateEntitySubscribe,
+  validateSnapshotRequest,
+  validateThrottle,
+  validateResume
+} from '../utils/socketValidation';
 import { IncomingMessage } from 'http';
 
 interface AuthenticatedWebSocket extends WebSocket {
+  connectionId?: string;
+  clientIp?: string;
   clientId?: string;
   isAuthenticated?: boolean;
   isAlive?: boolean;
+  // Opted into entity_delta messages instead of full states
+  deltaUpdates?: boolean;
+  // Outstanding auth challenge, answered at most once
+  authChallenge?: { clientId: string; nonce: string; expiresAt: number };
 }
 
+export interface WebSocketServerOptions {
+  // Entity IDs of an HAsync area, for area subscriptions
+  getAreaEntityIds?: AreaEntityResolver;
+  // Shared presence of paired clients; one updating last_seen is created otherwise
+  presence?: ClientPresenceTracker;
+  // Also accept the certificate as a bearer credential, for devices that
+  // cannot sign the auth challenge yet
+  allowCertificateAuth?: boolean;
+}
+
+// Path paired devices connect to; other upgrades (Socket.IO) are left alone
+export const WS_PATH = '/ws';
+
+const AUTH_CHALLENGE_TTL_MS = 30000;
+
 export class WebSocketServer {
   private wss: WebSocket.Server;
+  private haService: HomeAssistantService | null = null;
+  private stateChangeHandler = this.handleStateChange.bind(this);
+  private upgradeHandler = this.handleUpgrade.bind(this);
   private clients = new Map<string, AuthenticatedWebSocket>();
   private heartbeatInterval: NodeJS.Timeout;
-
+  // Entity updates are only sent to clients whose subscription matches
+  private subscriptions: EntitySubscriptionRegistry;
+  private presence: ClientPresenceTracker;
+  private allowCertificateAuth: boolean;
+  private deltas = new EntityDeltaTracker();
+  // Starts from the client's device_type defaults, see set_throttle
+  private throttle = new EntityUpdateThrottler<WSMessage>(coalesceEntityMessages);
+  // Recent entity messages in both forms, for clients resuming after a drop
+  private history = new RealtimeEventBuffer<{ full: WSEntityUpdateMessage; delta: WSEntityDeltaMessage }>();
+
+  /**
+   * @param haService Home Assistant connection to serve; attach() swaps it
+   * when the connection is replaced
+   */
   constructor(
-    server: HTTPServer,
+    private server: HTTPServer | HTTPSServer,
     private pairingService: PairingService,
-    private haService: HomeAssistantService
+    haService: HomeAssistantService | null,
+    options: WebSocketServerOptions = {}
   ) {
-    this.wss = new WebSocket.Server({ server, path: '/ws' });
+    // ws aborts upgrades for other paths when given the server, which
+    // would break Socket.IO on the same port, so upgrades are routed here
+    this.wss = new WebSocket.Server({ noServer: true });
+    this.server.on('upgrade', this.upgradeHandler);
+    this.subscriptions = new EntitySubscriptionRegistry(options.getAreaEntityIds || (() => null));
+    this.presence = options.presence
+      || new ClientPresenceTracker(clientId => this.pairingService.updateClientActivity(clientId));
+    this.allowCertificateAuth = !!options.allowCertificateAuth;
 
     this.wss.on('connection', this.handleConnection.bind(this));
 
@@ -40,38 +109,83 @@ export class WebSocketServer {
       });
     }, 30000);
 
-    // Subscribe to Home Assistant state changes
-    this.haService.on('state_changed', this.handleStateChange.bind(this));
+    if (haService) {
+      this.attach(haService);
+    }
 
     console.log('WebSocket server initialized');
   }
 
+  // Serve state changes and service calls from a Home Assistant connection
+  attach(haService: HomeAssistantService): void {
+    this.detach();
+    this.haService = haService;
+    this.haService.on('state_changed', this.stateChangeHandler);
+  }
+
+  detach(): void {
+    this.haService?.off('state_changed', this.stateChangeHandler);
+    this.haService = null;
+  }
+
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== WS_PATH) {
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, ws => this.wss.emit('connection', ws, req));
+  }
+
   private handleConnection(ws: AuthenticatedWebSocket, req: IncomingMessage): void {
     console.log('New WebSocket connection from', req.socket.remoteAddress);
 
     ws.isAlive = true;
     ws.isAuthenticated = false;
+    ws.connectionId = randomUUID();
+    ws.clientIp = req.socket.remoteAddress;
 
     // Handle pong messages for heartbeat
     ws.on('pong', () => {
       ws.isAlive = true;
+      if (ws.clientId) {
+        this.presence.heartbeat(ws.clientId, ws.connectionId!);
+      }
     });
 
     // Handle incoming messages
     ws.on('message', (data: WebSocket.Data) => {
+      let message: WSMessage;
       try {
-        const message = JSON.parse(data.toString()) as WSMessage;
-        this.handleMessage(ws, message);
+        message = JSON.parse(data.toString());
       } catch (error) {
         console.error('Invalid WebSocket message:', error);
         this.sendError(ws, 'Invalid message format');
+        return;
+      }
+      // JSON.parse also accepts null, numbers and strings
+      if (!message || typeof message !== 'object' || Array.isArray(message)) {
+        this.sendError(ws, 'Invalid message format');
+        return;
       }
+
+      this.handleMessage(ws, message).catch(error => {
+        console.error(`Failed to handle ${message.type} message:`, error);
+        this.sendError(ws, 'Failed to handle message');
+      });
     });
 
     // Handle disconnection
     ws.on('close', () => {
       if (ws.clientId) {
+        this.presence.disconnect(ws.clientId, ws.connectionId!);
+        // A newer connection of the same client keeps its entry
+        if (this.clients.get(ws.clientId) !== ws) {
+          return;
+        }
         this.clients.delete(ws.clientId);
+        this.subscriptions.remove(ws.clientId);
+        this.throttle.remove(ws.clientId);
         console.log(`Client ${ws.clientId} disconnected`);
       }
     });
@@ -85,6 +199,7 @@ export class WebSocketServer {
       type: 'connected',
       payload: {
         message: 'Connected to APP01 WebSocket server',
+        auth_methods: this.allowCertificateAuth ? ['signature', 'certificate'] : ['signature'],
         timestamp: Date.now()
       }
     });
@@ -97,6 +212,9 @@ export class WebSocketServer {
         break;
 
       case 'ping':
+        if (ws.clientId) {
+          this.presence.heartbeat(ws.clientId, ws.connectionId!);
+        }
         this.send(ws, { type: 'pong', payload: { timestamp: Date.now() } });
         break;
 
@@ -108,6 +226,38 @@ export class WebSocketServer {
         this.handleSubscribeEntities(ws, message);
         break;
 
+      case 'unsubscribe_entities':
+        if (!ws.isAuthenticated) {
+          this.sendError(ws, 'Authentication required');
+          return;
+        }
+        this.handleUnsubscribeEntities(ws, message);
+        break;
+
+      case 'get_snapshot':
+        if (!ws.isAuthenticated) {
+          this.sendError(ws, 'Authentication required');
+          return;
+        }
+        this.handleSnapshotRequest(ws, message);
+        break;
+
+      case 'resume':
+        if (!ws.isAuthenticated) {
+          this.sendError(ws, 'Authentication required');
+          return;
+        }
+        this.handleResume(ws, message);
+        break;
+
+      case 'set_throttle':
+        if (!ws.isAuthenticated) {
+          this.sendError(ws, 'Authentication required');
+          return;
+        }
+        this.handleSetThrottle(ws, message);
+        break;
+
       case 'call_service':
         if (!ws.isAuthenticated) {
           this.sendError(ws, 'Authentication required');
@@ -121,17 +271,38 @@ export class WebSocketServer {
     }
   }
 
+  /**
+   * Challenge-response: `auth` with the client ID gets an auth_challenge
+   * nonce, which the device signs with its paired private key and returns
+   * as `signature` in a second `auth`. A certificate instead of a signature
+   * is only accepted in compatibility mode.
+   */
   private async handleAuth(ws: AuthenticatedWebSocket, message: WSAuthMessage): Promise<void> {
     try {
-      const { client_id, certificate } = message.payload;
-
-      if (!client_id || !certificate) {
+      let credentials;
+      try {
+        credentials = validateAuth(message.payload);
+      } catch (error) {
         this.sendError(ws, 'Missing credentials');
         return;
       }
+      const { client_id, signature, certificate } = credentials;
+
+      if (!signature && !certificate) {
+        this.sendChallenge(ws, client_id);
+        return;
+      }
+
+      if (!signature && !this.allowCertificateAuth) {
+        this.sendError(ws, 'Certificate authentication is disabled, sign the auth challenge instead');
+        ws.close();
+        return;
+      }
 
       // Verify credentials
-      const isValid = this.pairingService.verifyClientCertificate(client_id, certificate);
+      const isValid = signature
+        ? this.verifyChallengeResponse(ws, client_id, signature)
+        : this.pairingService.verifyClientCertificate(client_id, certificate!);
       if (!isValid) {
         this.sendError(ws, 'Invalid credentials');
         ws.close();
@@ -143,8 +314,11 @@ export class WebSocketServer {
       ws.clientId = client_id;
       this.clients.set(client_id, ws);
 
-      // Update activity
-      this.pairingService.updateClientActivity(client_id);
+      // Online from now on; also updates last_seen
+      this.presence.connect(client_id, ws.connectionId!, { transport: 'ws', ipAddress: ws.clientIp });
+
+      this.throttle.remove(client_id);
+      this.throttle.configure(client_id, getDeviceThrottleDefaults(this.pairingService.getClient(client_id)?.device_type));
 
       // Send auth success
       this.send(ws, {
@@ -163,22 +337,172 @@ export class WebSocketServer {
     }
   }
 
+  private sendChallenge(ws: AuthenticatedWebSocket, clientId: string): void {
+    const challenge = {
+      clientId,
+      nonce: randomBytes(32).toString('base64'),
+      expiresAt: Date.now() + AUTH_CHALLENGE_TTL_MS
+    };
+    ws.authChallenge = challenge;
+
+    const message: WSAuthChallengeMessage = {
+      type: 'auth_challenge',
+      payload: { client_id: clientId, nonce: challenge.nonce, expires_at: challenge.expiresAt }
+    };
+    this.send(ws, message);
+  }
+
+  private verifyChallengeResponse(ws: AuthenticatedWebSocket, clientId: string, signature: string): boolean {
+    const challenge = ws.authChallenge;
+    // One attempt per challenge, so a nonce can't be replayed
+    ws.authChallenge = undefined;
+
+    if (!challenge || challenge.clientId !== clientId || Date.now() > challenge.expiresAt) {
+      return false;
+    }
+    return this.pairingService.verifyClientSignature(clientId, challenge.nonce, signature);
+  }
+
   private handleSubscribeEntities(ws: AuthenticatedWebSocket, message: WSMessage): void {
-    // Client can specify which entities to subscribe to
-    const { entity_ids } = message.payload || {};
+    // Client can narrow updates to entity IDs, globs and areas; with none
+    // given it receives every entity
+    let filter;
+    try {
+      filter = validateEntitySubscribe(message.payload);
+    } catch (error) {
+      this.sendError(ws, 'Invalid subscription filter');
+      return;
+    }
+
+    if (filter.delta !== undefined) {
+      ws.deltaUpdates = filter.delta;
+    }
+
+    const subscription = this.subscriptions.subscribe(ws.clientId!, {
+      entityIds: filter.entity_ids,
+      patterns: filter.patterns,
+      areaIds: filter.area_ids
+    });
 
     this.send(ws, {
       type: 'subscribed',
       payload: {
-        entity_ids: entity_ids || 'all',
+        ...subscription,
+        delta: !!ws.deltaUpdates,
+        // Sequence and epoch to resume from after a reconnect
+        replay: { seq: this.history.getSeq(), epoch: this.history.epoch },
         message: 'Subscribed to entity updates'
       }
     });
   }
 
+  private handleUnsubscribeEntities(ws: AuthenticatedWebSocket, message: WSMessage): void {
+    let filter;
+    try {
+      filter = validateEntityFilter(message.payload);
+    } catch (error) {
+      this.sendError(ws, 'Invalid subscription filter');
+      return;
+    }
+
+    // No filter removes the whole subscription
+    const subscription = this.subscriptions.unsubscribe(ws.clientId!, {
+      entityIds: filter.entity_ids,
+      patterns: filter.patterns,
+      areaIds: filter.area_ids
+    });
+
+    this.send(ws, {
+      type: 'unsubscribed',
+      payload: {
+        ...(subscription || { entityIds: [], patterns: [], areaIds: [], areaEntityIds: {} }),
+        message: 'Unsubscribed from entity updates'
+      }
+    });
+  }
+
+  private handleSnapshotRequest(ws: AuthenticatedWebSocket, message: WSMessage): void {
+    let request;
+    try {
+      request = validateSnapshotRequest(message.payload);
+    } catch (error) {
+      this.sendError(ws, 'Invalid snapshot request');
+      return;
+    }
+
+    this.send(ws, {
+      type: 'entity_snapshot',
+      payload: {
+        entities: this.deltas.snapshot(request.entity_ids, entityId => this.subscriptions.matches(ws.clientId!, entityId))
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Replay what the client missed since its last sequence, one coalesced
+   * message per entity, or tell it to resync if the buffer doesn't reach back
+   */
+  private handleResume(ws: AuthenticatedWebSocket, message: WSMessage): void {
+    let request;
+    try {
+      request = validateResume(message.payload);
+    } catch (error) {
+      this.sendError(ws, 'Invalid resume request');
+      return;
+    }
+
+    const position = { seq: this.history.getSeq(), epoch: this.history.epoch };
+    const result = this.history.since(request.last_seq, request.epoch);
+    if ('resync' in result) {
+      this.send(ws, { type: 'resync_required', payload: { reason: result.resync, ...position }, timestamp: Date.now() });
+      return;
+    }
+
+    const missed = new Map<string, WSMessage>();
+    result.events
+      .filter(buffered => this.subscriptions.matches(ws.clientId!, buffered.entityId))
+      .forEach(buffered => {
+        const next = ws.deltaUpdates ? buffered.event.delta : buffered.event.full;
+        const pending = missed.get(buffered.entityId);
+        missed.delete(buffered.entityId);
+        missed.set(buffered.entityId, pending ? coalesceEntityMessages(pending, next) : next);
+      });
+
+    missed.forEach(replayed => this.send(ws, replayed));
+    this.send(ws, { type: 'resume_complete', payload: { replayed: missed.size, ...position }, timestamp: Date.now() });
+  }
+
+  private handleSetThrottle(ws: AuthenticatedWebSocket, message: WSMessage): void {
+    let settings;
+    try {
+      settings = validateThrottle(message.payload);
+    } catch (error) {
+      this.sendError(ws, 'Invalid throttle settings');
+      return;
+    }
+
+    this.send(ws, {
+      type: 'throttle_updated',
+      payload: {
+        settings: this.throttle.configure(ws.clientId!, {
+          intervalMs: settings.interval_ms,
+          domains: settings.domains,
+          entities: settings.entities
+        }),
+        counters: this.throttle.getCounters(ws.clientId!)
+      },
+      timestamp: Date.now()
+    });
+  }
+
   private async handleServiceCall(ws: AuthenticatedWebSocket, message: WSMessage): Promise<void> {
     try {
       const { domain, service, service_data, target } = message.payload;
+      if (!this.haService) {
+        this.sendError(ws, 'Service call failed: Home Assistant not connected');
+        return;
+      }
 
       const result = await this.haService.callService(domain, service, service_data, target);
 
@@ -195,19 +519,38 @@ export class WebSocketServer {
   }
 
   private handleStateChange(data: any): void {
-    // Broadcast state changes to all authenticated clients
-    const { entity_id, new_state } = data;
+    // Send state changes to clients subscribed to the entity
+    const { entity_id, old_state, new_state } = data;
 
-    const message: WSEntityUpdateMessage = {
-      type: 'entity_update',
-      payload: {
-        entity_id,
-        state: new_state
+    const delta = this.deltas.record(entity_id, old_state || null, new_state || null);
+    const { event } = this.history.append(entity_id, seq => ({
+      full: {
+        type: 'entity_update',
+        payload: {
+          entity_id,
+          state: new_state,
+          seq
+        },
+        timestamp: Date.now()
       },
-      timestamp: Date.now()
-    };
-
-    this.broadcast(message);
+      delta: {
+        type: 'entity_delta',
+        payload: { ...delta, seq },
+        timestamp: Date.now()
+      }
+    }));
+
+    this.clients.forEach((ws, clientId) => {
+      if (ws.isAuthenticated && this.subscriptions.matches(clientId, entity_id)) {
+        this.throttle.submit(clientId, entity_id, ws.deltaUpdates ? event.delta : event.full, next => {
+          // Closed before a coalesced update was flushed
+          if (ws.readyState !== WebSocket.OPEN) {
+            return false;
+          }
+          this.send(ws, next);
+        });
+      }
+    });
   }
 
   private send(ws: WebSocket, message: WSMessage): void {
@@ -223,14 +566,6 @@ export class WebSocketServer {
     });
   }
 
-  private broadcast(message: WSMessage): void {
-    this.clients.forEach((ws) => {
-      if (ws.isAuthenticated) {
-        this.send(ws, message);
-      }
-    });
-  }
-
   // Public method to send message to specific client
   sendToClient(clientId: string, message: WSMessage): boolean {
     const ws = this.clients.get(clientId);
@@ -241,6 +576,53 @@ export class WebSocketServer {
     return false;
   }
 
+  // Close a client's connection, e.g. after its access was revoked
+  disconnectClient(clientId: string): boolean {
+    const ws = this.clients.get(clientId);
+    if (!ws) {
+      return false;
+    }
+    ws.close(4001, 'Access revoked');
+    return true;
+  }
+
+  // Re-resolve area subscriptions after an area's entities changed
+  refreshArea(areaId: string): void {
+    this.subscriptions.refreshArea(areaId).forEach(clientId => {
+      this.sendToClient(clientId, {
+        type: 'subscription_updated',
+        payload: this.subscriptions.get(clientId),
+        timestamp: Date.now()
+      });
+    });
+  }
+
+  // Tell the clients an area or dashboard change affects that it changed
+  notifyConfigUpdate(update: ConfigUpdatePayload): void {
+    const message: WSConfigUpdateMessage = { type: 'config_update', payload: update, timestamp: Date.now() };
+    this.clients.forEach((ws, clientId) => {
+      if (ws.isAuthenticated && this.isAffectedBy(clientId, update)) {
+        this.send(ws, message);
+      }
+    });
+  }
+
+  // Clients are affected by their assigned areas and dashboard, and by the
+  // areas they subscribed to
+  private isAffectedBy(clientId: string, update: ConfigUpdatePayload): boolean {
+    const metadata = this.pairingService.getClient(clientId)?.metadata || {};
+    if (update.resource === 'dashboard') {
+      return metadata.assigned_dashboard === update.id;
+    }
+    return (Array.isArray(metadata.assigned_areas) && metadata.assigned_areas.includes(update.id))
+      || !!this.subscriptions.get(clientId)?.areaIds.includes(update.id);
+  }
+
+  // Entity updates sent, coalesced and dropped by throttling
+  getThrottleCounters(clientId?: string): ThrottleCounters {
+    return this.throttle.getCounters(clientId);
+  }
+
   // Get connected clients count
   getConnectedClients(): number {
     return this.clients.size;
@@ -249,6 +631,17 @@ export class WebSocketServer {
   // Shutdown
   close(): void {
     clearInterval(this.heartbeatInterval);
+    this.detach();
+    this.server.off('upgrade', this.upgradeHandler);
+    this.wss.clients.forEach(ws => ws.terminate());
     this.wss.close();
   }
 }
+
+// Deltas are merged to keep the version chain intact, full states replaced
+function coalesceEntityMessages(pending: WSMessage, next: WSMessage): WSMessage {
+  if (pending.type === 'entity_delta' && next.type === 'entity_delta') {
+    return { ...next, payload: mergeEntityDeltas(pending.payload, next.payload) };
+  }
+  return next;
+}
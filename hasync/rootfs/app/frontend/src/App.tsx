@@ -24,6 +24,7 @@ import LogoutIcon from '@mui/icons-material/Logout';
 import SettingsIcon from '@mui/icons-material/Settings';
 import { useAppStore } from '@/context/AppContext';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import { useRealtimeSync } from '@/hooks/useRealtimeSync';
 import { wsClient } from '@/api/websocket';
 import { apiClient } from '@/api/client';
 import { ComponentErrorBoundary } from '@/components/ErrorBoundary';
@@ -55,6 +56,7 @@ const navItems = [
 const App: React.FC = () => {
   const { isAuthenticated, setAuth, clearAuth, setEntities, setAreas, setLoading } = useAppStore();
   const { connect, disconnect } = useWebSocket();
+  useRealtimeSync();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
 
@@ -1,5 +1,18 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import type { Entity, Area, Dashboard, Client, PairingSession, AppConfig, ApiError } from '@/types';
+import type {
+  Entity,
+  Area,
+  AreaLink,
+  AreaImportResult,
+  Dashboard,
+  Client,
+  PairingSession,
+  PairingCompletionRequest,
+  PairingCompletion,
+  AppConfig,
+  ApiError,
+  HAConnectionTestResult
+} from '@/types';
 
 class ApiClient {
   private instance: AxiosInstance;
@@ -38,7 +51,7 @@ class ApiClient {
     // Response interceptor for error handling and token refresh
     this.instance.interceptors.response.use(
       (response) => response,
-      async (error: AxiosError<ApiError>) => {
+      async (error: AxiosError<ApiError & { error?: string }>) => {
         // Handle CSRF token errors (403 Forbidden with EBADCSRFTOKEN)
         if (error.response?.status === 403 && error.response?.data?.code === 'EBADCSRFTOKEN') {
           // Token invalid or expired, fetch new token and retry
@@ -69,7 +82,7 @@ class ApiClient {
         }
 
         const apiError: ApiError = {
-          message: error.response?.data?.message || error.message || 'An error occurred',
+          message: error.response?.data?.message || error.response?.data?.error || error.message || 'An error occurred',
           code: error.response?.data?.code || error.code,
           details: error.response?.data?.details,
         };
@@ -157,6 +170,18 @@ class ApiClient {
     return data;
   }
 
+  // Home Assistant connection endpoints
+  async testHAConnection(url: string, token: string): Promise<HAConnectionTestResult> {
+    const { data } = await this.instance.post<HAConnectionTestResult>('/config/ha/test', { url, token });
+    return data;
+  }
+
+  // Rejected with the test category as `code` unless `force` is set
+  async saveHAConfig(url: string, token: string, force = false): Promise<{ success: boolean; test: HAConnectionTestResult | null }> {
+    const { data } = await this.instance.post('/config/ha', { url, token, force });
+    return data;
+  }
+
   // Entity endpoints
   async getEntities(): Promise<Entity[]> {
     // Get HA URL from localStorage if available
@@ -164,14 +189,20 @@ class ApiClient {
     const params = haUrl ? { ha_url: haUrl } : {};
 
     const { data } = await this.instance.get<any[]>('/entities', { params });
-    // Transform API response to match Entity type
-    return data.map((entity) => ({
+    return data.map((entity) => this.toEntity(entity));
+  }
+
+  /**
+   * Transform an HA state (from the API or an entity_update event) to match Entity type
+   */
+  toEntity(entity: any): Entity {
+    return {
       id: entity.entity_id,
       name: entity.friendly_name || entity.attributes?.friendly_name || entity.entity_id,
       type: this.extractEntityType(entity.entity_id),
       state: entity.state,
       attributes: entity.attributes,
-    }));
+    };
   }
 
   private extractEntityType(entityId: string): Entity['type'] {
@@ -228,6 +259,32 @@ class ApiClient {
     return data;
   }
 
+  // Home Assistant area import
+  async importHAAreas(options: { haAreaIds?: string[]; linked?: boolean } = {}): Promise<AreaImportResult> {
+    const { data } = await this.instance.post<AreaImportResult>('/areas/import', options);
+    return data;
+  }
+
+  async getAreaLinks(): Promise<AreaLink[]> {
+    const { data } = await this.instance.get<AreaLink[]>('/areas/links');
+    return data;
+  }
+
+  async setAreaLinked(areaId: string, linked: boolean): Promise<AreaLink> {
+    const { data } = await this.instance.patch<AreaLink>(`/areas/${areaId}/link`, { linked });
+    return data;
+  }
+
+  async acceptAreaChanges(areaId: string): Promise<Area> {
+    const { data } = await this.instance.post<Area>(`/areas/${areaId}/link/accept`);
+    return data;
+  }
+
+  async rejectAreaChanges(areaId: string): Promise<AreaLink> {
+    const { data } = await this.instance.post<AreaLink>(`/areas/${areaId}/link/reject`);
+    return data;
+  }
+
   // Generic patch method for flexibility
   async patch<T = any>(url: string, data?: any): Promise<T> {
     const response = await this.instance.patch<T>(url, data);
@@ -245,6 +302,20 @@ class ApiClient {
     return data;
   }
 
+  async createDashboard(dashboard: Omit<Dashboard, 'id'>): Promise<Dashboard> {
+    const { data } = await this.instance.post<Dashboard>('/dashboards', dashboard);
+    return data;
+  }
+
+  async updateDashboard(id: string, dashboard: Partial<Omit<Dashboard, 'id'>>): Promise<Dashboard> {
+    const { data } = await this.instance.put<Dashboard>(`/dashboards/${id}`, dashboard);
+    return data;
+  }
+
+  async deleteDashboard(id: string): Promise<void> {
+    await this.instance.delete(`/dashboards/${id}`);
+  }
+
   async syncDashboards(): Promise<Dashboard[]> {
     const { data } = await this.instance.post<Dashboard[]>('/dashboards/sync');
     return data;
@@ -270,6 +341,10 @@ class ApiClient {
     await this.instance.delete(`/clients/${id}`);
   }
 
+  async revokeClient(id: string): Promise<void> {
+    await this.instance.post(`/clients/${id}/revoke`);
+  }
+
   async assignAreasToClient(clientId: string, areaIds: string[]): Promise<Client> {
     const { data } = await this.instance.post<Client>(`/clients/${clientId}/areas`, { areaIds });
     return data;
@@ -291,8 +366,8 @@ class ApiClient {
     return data;
   }
 
-  async completePairing(sessionId: string, clientInfo: Partial<Client>): Promise<Client> {
-    const { data } = await this.instance.post<Client>(`/pairing/${sessionId}/complete`, clientInfo);
+  async completePairing(sessionId: string, request: PairingCompletionRequest): Promise<PairingCompletion> {
+    const { data } = await this.instance.post<PairingCompletion>(`/pairing/${sessionId}/complete`, request);
     return data;
   }
 
@@ -300,6 +375,16 @@ class ApiClient {
     await this.instance.delete(`/pairing/${sessionId}`);
   }
 
+  async approvePairing(sessionId: string): Promise<{ session: PairingSession; client: Client }> {
+    const { data } = await this.instance.post<{ session: PairingSession; client: Client }>(`/pairing/${sessionId}/approve`);
+    return data;
+  }
+
+  async rejectPairing(sessionId: string): Promise<{ session: PairingSession }> {
+    const { data } = await this.instance.post<{ session: PairingSession }>(`/pairing/${sessionId}/reject`);
+    return data;
+  }
+
   // Health check
   async healthCheck(): Promise<{ status: string; timestamp: string }> {
     const { data } = await this.instance.get('/health');
@@ -3,6 +3,8 @@
  * Provides functions for connecting to and syncing with Home Assistant instances
  */
 
+import { apiClient } from './client';
+
 // ============================================================================
 // TypeScript Types & Interfaces
 // ============================================================================
@@ -55,6 +57,7 @@ export interface HAConnectionTestResult {
   success: boolean;
   message: string;
   version?: string;
+  entityCount?: number;
   error?: string;
 }
 
@@ -243,7 +246,8 @@ async function fetchHA<T>(
 
 /**
  * Test connection to Home Assistant
- * Validates URL, token, and returns basic instance info
+ * Validates URL, token, and returns basic instance info. The check runs on
+ * the backend, since the browser can't reach HA under ingress (CORS).
  *
  * @param url - Home Assistant instance URL (e.g., http://homeassistant.local:8123)
  * @param token - Long-lived access token
@@ -275,16 +279,24 @@ export async function testConnection(
       };
     }
 
-    // Fetch Home Assistant config to test connection
-    const config = await fetchHA<HAConfig>(url, token, 'config');
+    const result = await apiClient.testHAConnection(normalizeUrl(url), token);
+
+    if (!result.success) {
+      return {
+        success: false,
+        message: result.message,
+        error: result.category
+      };
+    }
 
     return {
       success: true,
-      message: `Successfully connected to Home Assistant at ${config.location_name}`,
-      version: config.version
+      message: `Successfully connected to Home Assistant at ${result.locationName}`,
+      version: result.version,
+      entityCount: result.entityCount
     };
-  } catch (error) {
-    if (error instanceof HomeAssistantError) {
+  } catch (error: any) {
+    if (error?.message) {
       return {
         success: false,
         message: error.message,
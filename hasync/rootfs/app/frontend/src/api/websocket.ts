@@ -1,5 +1,11 @@
 import { io, Socket } from 'socket.io-client';
-import type { WebSocketMessage } from '@/types';
+import type {
+  EntitySubscriptionFilter,
+  ReplayPosition,
+  ServiceCallRequest,
+  ServiceCallResponse,
+  WebSocketMessage,
+} from '@/types';
 
 type EventHandler = (data: any) => void;
 
@@ -9,6 +15,8 @@ class WebSocketClient {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private authToken: string | null = null;
+  // Last entity update seen, to resume from after a reconnect
+  private replay: ReplayPosition | null = null;
 
   /**
    * Set authentication token for WebSocket connection
@@ -71,6 +79,11 @@ class WebSocketClient {
     this.socket.on('connect', () => {
       console.log('WebSocket connected successfully');
       this.reconnectAttempts = 0;
+      // Rooms are per connection, so join them again on every (re)connect
+      this.subscribe('entities');
+      this.subscribe('clients');
+      this.subscribe('areas');
+      this.subscribe('dashboards');
       this.emit('connected', {
         timestamp: new Date(),
         authenticated: true
@@ -124,6 +137,9 @@ class WebSocketClient {
 
     // Specific event handlers
     this.socket.on('entity_update', (data) => {
+      if (this.replay && data.seq) {
+        this.replay = { ...this.replay, seq: Math.max(this.replay.seq, data.seq) };
+      }
       this.emit('entity_update', data);
     });
 
@@ -139,6 +155,10 @@ class WebSocketClient {
       this.emit('pairing_request', data);
     });
 
+    this.socket.on('pairing_completed', (data) => {
+      this.emit('pairing_completed', data);
+    });
+
     this.socket.on('config_update', (data) => {
       this.emit('config_update', data);
     });
@@ -150,8 +170,17 @@ class WebSocketClient {
     });
 
     // Handle subscription confirmations
+    // First entity subscription gives the starting point; after a reconnect
+    // the missed updates are replayed from the last one seen
     this.socket.on('subscribed', (data) => {
       console.log('Subscribed to:', data.type);
+      if (data.type === 'entities' && data.replay) {
+        if (this.replay) {
+          this.resume(this.replay.seq, this.replay.epoch);
+        } else {
+          this.replay = data.replay;
+        }
+      }
       this.emit('subscribed', data);
     });
 
@@ -160,6 +189,18 @@ class WebSocketClient {
       this.emit('unsubscribed', data);
     });
 
+    // Replay after a reconnect
+    this.socket.on('resume_complete', (data) => {
+      this.replay = { seq: data.seq, epoch: data.epoch };
+      this.emit('resume_complete', data);
+    });
+
+    this.socket.on('resync_required', (data) => {
+      console.warn('Missed too many updates, resyncing:', data.reason);
+      this.replay = { seq: data.seq, epoch: data.epoch };
+      this.emit('resync_required', data);
+    });
+
     // Handle pong for heartbeat
     this.socket.on('pong', (data) => {
       this.emit('pong', data);
@@ -248,17 +289,43 @@ class WebSocketClient {
   }
 
   /**
-   * Subscribe to real-time updates for a specific type
+   * Subscribe to real-time updates for a specific type. For entities, an
+   * optional filter limits updates to entity IDs, globs or areas.
    */
-  subscribe(type: 'entities' | 'areas' | 'dashboards' | 'clients', id?: string): void {
-    this.send('subscribe', { type, id });
+  subscribe(type: 'entities' | 'areas' | 'dashboards' | 'clients', id?: string, filter: EntitySubscriptionFilter = {}): void {
+    this.send('subscribe', { type, id, ...filter });
+  }
+
+  /**
+   * Unsubscribe from real-time updates, or only from part of an entity filter
+   */
+  unsubscribe(type: 'entities' | 'areas' | 'dashboards' | 'clients', id?: string, filter: EntitySubscriptionFilter = {}): void {
+    this.send('unsubscribe', { type, id, ...filter });
+  }
+
+  /**
+   * Call a Home Assistant service; resolves with the server's acknowledgement
+   */
+  callService(request: ServiceCallRequest, timeoutMs = 10000): Promise<ServiceCallResponse> {
+    if (!this.socket?.connected) {
+      return Promise.resolve({
+        success: false,
+        error: { code: 'not_connected', message: 'WebSocket not connected' }
+      });
+    }
+
+    return new Promise((resolve) => {
+      this.socket!.timeout(timeoutMs).emit('call_service', request, (error: Error | null, response: ServiceCallResponse) => {
+        resolve(error ? { success: false, error: { code: 'timeout', message: 'No response from server' } } : response);
+      });
+    });
   }
 
   /**
-   * Unsubscribe from real-time updates
+   * Ask for the entity updates missed since the last sequence seen
    */
-  unsubscribe(type: 'entities' | 'areas' | 'dashboards' | 'clients', id?: string): void {
-    this.send('unsubscribe', { type, id });
+  resume(lastSeq: number, epoch: string): void {
+    this.send('resume', { last_seq: lastSeq, epoch });
   }
 
   /**
@@ -43,6 +43,7 @@ import CategoryIcon from '@mui/icons-material/Category';
 import FingerprintIcon from '@mui/icons-material/Fingerprint';
 import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
 import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import CloudDownloadIcon from '@mui/icons-material/CloudDownload';
 import { useAppStore } from '@/context/AppContext';
 import { useAreas } from '@/hooks/useApi';
 import { EntitySelector } from './EntitySelector';
@@ -53,7 +54,7 @@ import { retryWithBackoff } from '@/utils/retry';
 import { getErrorMessage } from '@/utils/errorMessages';
 import { validateAreaName, validateEntityIds } from '@/utils/validation';
 import { useNetworkStatus } from '@/hooks/useNetworkStatus';
-import type { Area } from '@/types';
+import type { Area, AreaLink } from '@/types';
 import type { FormattedError } from '@/utils/errorMessages';
 import { SectionErrorBoundary } from './ErrorBoundary';
 
@@ -766,6 +767,12 @@ export const AreaManagerEnhanced: React.FC = () => {
   const [reorderingAreaId, setReorderingAreaId] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
 
+  // Home Assistant import / linked areas
+  const [areaLinks, setAreaLinks] = useState<AreaLink[]>([]);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [importLinked, setImportLinked] = useState(true);
+  const [importing, setImporting] = useState(false);
+
   // Ref for skip link target
   const mainContentRef = useRef<HTMLDivElement>(null);
 
@@ -807,6 +814,89 @@ export const AreaManagerEnhanced: React.FC = () => {
     }
   }, [selectedEntities, dialogOpen]);
 
+  const loadAreaLinks = useCallback(async (): Promise<void> => {
+    try {
+      setAreaLinks(await apiClient.getAreaLinks());
+    } catch (err) {
+      console.error('Failed to load Home Assistant area links:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAreaLinks();
+  }, [loadAreaLinks]);
+
+  const pendingLinks = useMemo(
+    () => areaLinks.filter((link) => link.pendingDiff !== null),
+    [areaLinks]
+  );
+
+  const handleImport = async (): Promise<void> => {
+    setImporting(true);
+    try {
+      const result = await apiClient.importHAAreas({ linked: importLinked });
+      setAreas((prevAreas: Area[]) => [...prevAreas, ...result.imported]);
+      await loadAreaLinks();
+
+      setSuccessSnackbar({
+        open: true,
+        message: result.imported.length > 0
+          ? `Imported ${result.imported.length} ${result.imported.length === 1 ? 'area' : 'areas'} from Home Assistant`
+          : 'All Home Assistant areas are already imported',
+      });
+      setImportDialogOpen(false);
+    } catch (err) {
+      console.error('Failed to import areas:', err);
+      const formattedError = getErrorMessage(err, { operation: 'import', resource: 'area' });
+      setErrorSnackbar({
+        open: true,
+        error: formattedError,
+        retryAction: () => handleImport(),
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleReviewChanges = async (areaId: string, accept: boolean): Promise<void> => {
+    try {
+      if (accept) {
+        const updatedArea = await apiClient.acceptAreaChanges(areaId);
+        setAreas((prevAreas: Area[]) => prevAreas.map((a: Area) =>
+          a.id === updatedArea.id ? updatedArea : a
+        ));
+      } else {
+        await apiClient.rejectAreaChanges(areaId);
+      }
+      await loadAreaLinks();
+
+      setSuccessSnackbar({
+        open: true,
+        message: accept ? 'Home Assistant changes applied' : 'Home Assistant changes dismissed',
+      });
+    } catch (err) {
+      console.error('Failed to review area changes:', err);
+      const formattedError = getErrorMessage(err, { operation: 'update', resource: 'area' });
+      setErrorSnackbar({
+        open: true,
+        error: formattedError,
+        retryAction: () => handleReviewChanges(areaId, accept),
+      });
+    }
+  };
+
+  const describeDiff = (link: AreaLink): string => {
+    const diff = link.pendingDiff!;
+    if (diff.areaRemoved) {
+      return 'The area was deleted in Home Assistant';
+    }
+    const parts: string[] = [];
+    if (diff.name) parts.push(`renamed to "${diff.name.to}"`);
+    if (diff.added.length > 0) parts.push(`${diff.added.length} added`);
+    if (diff.removed.length > 0) parts.push(`${diff.removed.length} removed`);
+    return parts.join(', ');
+  };
+
   const handleCreateNew = useCallback((): void => {
     setEditingArea(null);
     setAreaName('');
@@ -1272,28 +1362,66 @@ export const AreaManagerEnhanced: React.FC = () => {
               Organize your entities into logical areas for better management
             </Typography>
           </Box>
-          <Button
-            variant="contained"
-            size="large"
-            startIcon={<AddIcon aria-hidden="true" />}
-            onClick={handleCreateNew}
-            aria-label="Create new area"
-            sx={{
-              borderRadius: 2,
-              px: 3,
-              background: 'linear-gradient(135deg, #5568d3 0%, #63428a 100%)',
-              color: '#ffffff',
-              fontWeight: 600,
-              '&:hover': {
-                background: 'linear-gradient(135deg, #4557bc 0%, #522572 100%)',
-              },
-              ...focusStyles,
-            }}
-          >
-            Create Area
-          </Button>
+          <Stack direction="row" spacing={2}>
+            <Button
+              variant="outlined"
+              size="large"
+              startIcon={<CloudDownloadIcon aria-hidden="true" />}
+              onClick={() => setImportDialogOpen(true)}
+              aria-label="Import areas from Home Assistant"
+              sx={{
+                borderRadius: 2,
+                px: 3,
+                fontWeight: 600,
+                ...focusStyles,
+              }}
+            >
+              Import from HA
+            </Button>
+            <Button
+              variant="contained"
+              size="large"
+              startIcon={<AddIcon aria-hidden="true" />}
+              onClick={handleCreateNew}
+              aria-label="Create new area"
+              sx={{
+                borderRadius: 2,
+                px: 3,
+                background: 'linear-gradient(135deg, #5568d3 0%, #63428a 100%)',
+                color: '#ffffff',
+                fontWeight: 600,
+                '&:hover': {
+                  background: 'linear-gradient(135deg, #4557bc 0%, #522572 100%)',
+                },
+                ...focusStyles,
+              }}
+            >
+              Create Area
+            </Button>
+          </Stack>
         </Box>
 
+        {/* Pending Home Assistant changes for linked areas */}
+        {pendingLinks.map((link) => (
+          <Alert
+            key={link.areaId}
+            severity="warning"
+            sx={{ borderRadius: 2 }}
+            action={
+              <Stack direction="row" spacing={1}>
+                <Button color="inherit" size="small" onClick={() => handleReviewChanges(link.areaId, true)}>
+                  Accept
+                </Button>
+                <Button color="inherit" size="small" onClick={() => handleReviewChanges(link.areaId, false)}>
+                  Reject
+                </Button>
+              </Stack>
+            }
+          >
+            Home Assistant changed "{areas.find((a) => a.id === link.areaId)?.name || link.haName}": {describeDiff(link)}
+          </Alert>
+        ))}
+
         {/* Area Grid */}
         {areas.length === 0 ? (
           <Card
@@ -1490,6 +1618,48 @@ export const AreaManagerEnhanced: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Import from Home Assistant Dialog */}
+      <Dialog
+        open={importDialogOpen}
+        onClose={() => setImportDialogOpen(false)}
+        maxWidth="sm"
+        fullWidth
+        aria-labelledby="import-dialog-title"
+      >
+        <DialogTitle id="import-dialog-title">Import Areas from Home Assistant</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" mb={2}>
+            Creates an area for every Home Assistant area that hasn't been imported yet, filled with its entities.
+          </Typography>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={importLinked}
+                onChange={(e) => setImportLinked(e.target.checked)}
+              />
+            }
+            label="Keep linked - review Home Assistant changes before they are applied"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setImportDialogOpen(false)} sx={focusStyles}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleImport}
+            disabled={importing}
+            startIcon={importing ? <CircularProgress size={16} aria-label="Importing" /> : <CloudDownloadIcon aria-hidden="true" />}
+            sx={{
+              ...focusStyles,
+              fontWeight: 600,
+            }}
+          >
+            {importing ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Enhanced Error Snackbar */}
       <ErrorSnackbar
         open={errorSnackbar.open}
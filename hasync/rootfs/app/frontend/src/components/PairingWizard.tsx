@@ -8,54 +8,98 @@ import {
   Stepper,
   Step,
   StepLabel,
+  Stack,
+  Alert,
+  Paper,
   TextField,
   Select,
   MenuItem,
   FormControl,
   InputLabel,
-  Stack,
-  Alert,
-  Paper,
   Chip,
 } from '@mui/material';
 import QrCode2Icon from '@mui/icons-material/QrCode2';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
-import { useAppStore } from '@/context/AppContext';
 import { useApi } from '@/hooks/useApi';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { apiClient } from '@/api/client';
-import { EntitySelector } from './EntitySelector';
-import type { PairingSession, Client } from '@/types';
+import { useAppStore } from '@/context/AppContext';
+import type { PairingSession, PairingCompletedEvent, PairingRequestEvent, Client } from '@/types';
 
 const steps = ['Generate PIN', 'Client Connection', 'Configure Client', 'Complete'];
 
+// Fallback for missed pairing_completed events, and to notice expiry
+const SESSION_POLL_INTERVAL_MS = 5000;
+
 export const PairingWizard: React.FC = () => {
-  const { areas, dashboards, selectedEntities, clearEntitySelection } = useAppStore();
   const { on: onWsEvent } = useWebSocket();
+  const { areas, dashboards } = useAppStore();
   const { loading, error, execute } = useApi<PairingSession>();
+  const decision = useApi<{ session: PairingSession; client?: Client }>();
 
   const [activeStep, setActiveStep] = useState(0);
   const [pairingSession, setPairingSession] = useState<PairingSession | null>(null);
+  const [pairedClient, setPairedClient] = useState<Client | null>(null);
   const [clientName, setClientName] = useState('');
   const [deviceType, setDeviceType] = useState<Client['deviceType']>('phone');
   const [selectedAreas, setSelectedAreas] = useState<string[]>([]);
   const [selectedDashboard, setSelectedDashboard] = useState<string>('');
-  const [pairedClient, setPairedClient] = useState<Client | null>(null);
+  const configure = useApi<Client>();
+
+  // The device is paired; prefill the configuration with what it reported
+  const handlePaired = (client: Client | null) => {
+    setPairedClient(client);
+    if (client) {
+      setClientName(client.name);
+      setDeviceType(['phone', 'tablet', 'desktop'].includes(client.deviceType) ? client.deviceType : 'phone');
+      setSelectedAreas(client.assignedAreas || []);
+      setSelectedDashboard(client.assignedDashboard || '');
+    }
+    setActiveStep(client ? 2 : 3);
+  };
 
   useEffect(() => {
-    // Listen for pairing requests
-    const unsubscribe = onWsEvent('pairing_request', (data: { session: PairingSession }) => {
+    // The device completes pairing with the PIN; the server tells admins
+    const unsubscribe = onWsEvent('pairing_completed', (data: PairingCompletedEvent) => {
       if (data.session.id === pairingSession?.id) {
         setPairingSession(data.session);
-        if (data.session.status === 'active') {
-          setActiveStep(2); // Move to configuration step
-        }
+        handlePaired(data.client);
+      }
+    });
+
+    return unsubscribe;
+  }, [pairingSession, onWsEvent]);
+
+  useEffect(() => {
+    // Approval mode: a device submitted the PIN and waits for a decision
+    const unsubscribe = onWsEvent('pairing_request', (data: PairingRequestEvent) => {
+      if (pairingSession && data?.session?.id === pairingSession.id) {
+        setPairingSession(data.session);
       }
     });
 
     return unsubscribe;
   }, [pairingSession, onWsEvent]);
 
+  useEffect(() => {
+    if (activeStep !== 1 || !pairingSession) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const session = await apiClient.getPairingSession(pairingSession.id);
+        setPairingSession(session);
+        if (session.status === 'completed' && session.clientId) {
+          const clients = await apiClient.getClients();
+          handlePaired(clients.find((client) => client.id === session.clientId) || null);
+        }
+      } catch (err) {
+        console.error('Failed to check pairing session:', err);
+      }
+    }, SESSION_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [activeStep, pairingSession?.id]);
+
   const handleStartPairing = async () => {
     const session = await execute(() => apiClient.createPairingSession());
     if (session) {
@@ -64,34 +108,54 @@ export const PairingWizard: React.FC = () => {
     }
   };
 
-  const handleCompletePairing = async () => {
+  const handleApprove = async () => {
     if (!pairingSession) return;
+    try {
+      const result = await decision.execute(() => apiClient.approvePairing(pairingSession.id));
+      setPairingSession(result.session);
+      handlePaired(result.client || null);
+    } catch (err) {
+      console.error('Failed to approve pairing:', err);
+    }
+  };
 
+  const handleReject = async () => {
+    if (!pairingSession) return;
     try {
-      const client = await apiClient.completePairing(pairingSession.id, {
-        name: clientName,
-        deviceType,
-        assignedAreas: selectedAreas,
-        assignedDashboard: selectedDashboard || undefined,
-      });
+      const result = await decision.execute(() => apiClient.rejectPairing(pairingSession.id));
+      setPairingSession(result.session);
+    } catch (err) {
+      console.error('Failed to reject pairing:', err);
+    }
+  };
+
+  const handleConfigureClient = async () => {
+    if (!pairedClient) return;
 
+    try {
+      const client = await configure.execute(() =>
+        apiClient.updateClient(pairedClient.id, {
+          name: clientName.trim(),
+          deviceType,
+          assignedAreas: selectedAreas,
+          assignedDashboard: selectedDashboard,
+        })
+      );
       setPairedClient(client);
       setActiveStep(3);
-      clearEntitySelection();
     } catch (err) {
-      console.error('Failed to complete pairing:', err);
+      console.error('Failed to configure client:', err);
     }
   };
 
   const handleReset = () => {
     setActiveStep(0);
     setPairingSession(null);
+    setPairedClient(null);
     setClientName('');
     setDeviceType('phone');
     setSelectedAreas([]);
     setSelectedDashboard('');
-    setPairedClient(null);
-    clearEntitySelection();
   };
 
   const handleCancel = async () => {
@@ -119,6 +183,8 @@ export const PairingWizard: React.FC = () => {
         </Stepper>
 
         {error && <Alert severity="error">{error.message}</Alert>}
+        {decision.error && <Alert severity="error">{decision.error.message}</Alert>}
+        {configure.error && <Alert severity="error">{configure.error.message}</Alert>}
 
         <Card>
           <CardContent>
@@ -141,10 +207,63 @@ export const PairingWizard: React.FC = () => {
               </Stack>
             )}
 
+            {/* Step 1: Approve the device that entered the PIN */}
+            {activeStep === 1 && pairingSession?.request && (
+              <Stack spacing={3} alignItems="center" py={4}>
+                <Typography variant="h6">A device wants to pair</Typography>
+                <Paper sx={{ p: 2, bgcolor: 'background.default', width: '100%' }}>
+                  <Stack spacing={1}>
+                    <Typography>Name: {pairingSession.request.deviceName}</Typography>
+                    <Typography>Device: {pairingSession.request.deviceType}</Typography>
+                    <Typography>IP address: {pairingSession.request.ipAddress || 'unknown'}</Typography>
+                  </Stack>
+                </Paper>
+                {pairingSession.status === 'pending_approval' && (
+                  <>
+                    <Typography color="text.secondary" align="center">
+                      Only approve devices you recognize.
+                    </Typography>
+                    <Stack direction="row" spacing={2}>
+                      <Button variant="contained" onClick={handleApprove} disabled={decision.loading}>
+                        Approve
+                      </Button>
+                      <Button variant="outlined" color="error" onClick={handleReject} disabled={decision.loading}>
+                        Reject
+                      </Button>
+                    </Stack>
+                  </>
+                )}
+                {pairingSession.status === 'rejected' && (
+                  <Alert severity="info">The pairing request was rejected.</Alert>
+                )}
+                {pairingSession.status === 'expired' && (
+                  <Alert severity="warning">The pairing request timed out. Generate a new PIN to try again.</Alert>
+                )}
+                {pairingSession.status !== 'pending_approval' && (
+                  <Button variant="outlined" onClick={handleReset}>
+                    Start Over
+                  </Button>
+                )}
+              </Stack>
+            )}
+
             {/* Step 1: Show PIN */}
-            {activeStep === 1 && pairingSession && (
+            {activeStep === 1 && pairingSession && !pairingSession.request && (
               <Stack spacing={3} alignItems="center" py={4}>
-                <Typography variant="h6">Enter this PIN on your client device:</Typography>
+                {pairingSession.qrCode ? (
+                  <>
+                    <Typography variant="h6">Scan this code with your client device:</Typography>
+                    <Box
+                      component="img"
+                      src={pairingSession.qrCode.pngDataUrl}
+                      alt="Pairing QR code"
+                      sx={{ width: 256, height: 256, bgcolor: 'common.white', borderRadius: 1 }}
+                    />
+                    <Typography color="text.secondary">or enter the PIN manually:</Typography>
+                  </>
+                ) : (
+                  <Typography variant="h6">Enter this PIN on your client device:</Typography>
+                )}
                 <Paper
                   elevation={3}
                   sx={{
@@ -157,9 +276,13 @@ export const PairingWizard: React.FC = () => {
                     {pairingSession.pin}
                   </Typography>
                 </Paper>
-                <Typography color="text.secondary" align="center">
-                  Waiting for client to connect...
-                </Typography>
+                {pairingSession.status === 'expired' ? (
+                  <Alert severity="warning">This PIN has expired. Generate a new one to try again.</Alert>
+                ) : (
+                  <Typography color="text.secondary" align="center">
+                    Waiting for client to connect...
+                  </Typography>
+                )}
                 <Typography variant="caption" color="text.secondary">
                   PIN expires: {new Date(pairingSession.expiresAt).toLocaleTimeString()}
                 </Typography>
@@ -170,9 +293,9 @@ export const PairingWizard: React.FC = () => {
             )}
 
             {/* Step 2: Configure Client */}
-            {activeStep === 2 && (
+            {activeStep === 2 && pairedClient && (
               <Stack spacing={3}>
-                <Alert severity="success">Client connected successfully!</Alert>
+                <Alert severity="success">Client paired successfully!</Alert>
 
                 <TextField
                   fullWidth
@@ -241,41 +364,45 @@ export const PairingWizard: React.FC = () => {
                 </FormControl>
 
                 <Box display="flex" gap={2} justifyContent="flex-end">
-                  <Button onClick={handleCancel}>Cancel</Button>
+                  <Button onClick={() => setActiveStep(3)} disabled={configure.loading}>
+                    Skip
+                  </Button>
                   <Button
                     variant="contained"
-                    onClick={handleCompletePairing}
-                    disabled={!clientName.trim()}
+                    onClick={handleConfigureClient}
+                    disabled={!clientName.trim() || configure.loading}
                   >
-                    Complete Pairing
+                    Save Configuration
                   </Button>
                 </Box>
               </Stack>
             )}
 
             {/* Step 3: Complete */}
-            {activeStep === 3 && pairedClient && (
+            {activeStep === 3 && (
               <Stack spacing={3} alignItems="center" py={4}>
                 <CheckCircleIcon sx={{ fontSize: 80, color: 'success.main' }} />
                 <Typography variant="h6">Pairing Complete!</Typography>
-                <Paper sx={{ p: 2, bgcolor: 'background.default', width: '100%' }}>
-                  <Typography variant="subtitle2" gutterBottom>
-                    Client Details:
-                  </Typography>
-                  <Stack spacing={1}>
-                    <Typography>Name: {pairedClient.name}</Typography>
-                    <Typography>Device: {pairedClient.deviceType}</Typography>
-                    <Typography>
-                      Areas: {selectedAreas.length > 0 ? selectedAreas.length : 'None'}
+                {pairedClient && (
+                  <Paper sx={{ p: 2, bgcolor: 'background.default', width: '100%' }}>
+                    <Typography variant="subtitle2" gutterBottom>
+                      Client Details:
                     </Typography>
-                    <Typography>
-                      Dashboard:{' '}
-                      {selectedDashboard
-                        ? dashboards.find((d) => d.id === selectedDashboard)?.name
-                        : 'None'}
-                    </Typography>
-                  </Stack>
-                </Paper>
+                    <Stack spacing={1}>
+                      <Typography>Name: {pairedClient.name}</Typography>
+                      <Typography>Device: {pairedClient.deviceType}</Typography>
+                      <Typography>
+                        Areas: {pairedClient.assignedAreas?.length ? pairedClient.assignedAreas.length : 'None'}
+                      </Typography>
+                      <Typography>
+                        Dashboard:{' '}
+                        {pairedClient.assignedDashboard
+                          ? dashboards.find((d) => d.id === pairedClient.assignedDashboard)?.name || pairedClient.assignedDashboard
+                          : 'None'}
+                      </Typography>
+                    </Stack>
+                  </Paper>
+                )}
                 <Button variant="contained" onClick={handleReset}>
                   Pair Another Client
                 </Button>
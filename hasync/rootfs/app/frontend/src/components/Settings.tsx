@@ -36,6 +36,12 @@ export const Settings: React.FC = () => {
   const [url, setUrl] = useState(ingressUrl);
   const [token, setToken] = useState(accessToken);
   const [showToken, setShowToken] = useState(false);
+  // Running as an add-on: the backend reaches HA through the Supervisor
+  const [supervisorMode, setSupervisorMode] = useState(false);
+  // The backend only ever returns a masked copy of the saved token
+  const [savedToken, setSavedToken] = useState<string | null>(null);
+  // The saved token is only reused for the URL it was saved with
+  const [savedUrl, setSavedUrl] = useState<string | null>(null);
 
   // UI state
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>({
@@ -44,6 +50,8 @@ export const Settings: React.FC = () => {
   });
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  // Set when the backend refused to save because the connection test failed
+  const [saveRejected, setSaveRejected] = useState(false);
 
   // Validation errors
   const [urlError, setUrlError] = useState('');
@@ -56,8 +64,12 @@ export const Settings: React.FC = () => {
         const response = await fetch('/api/config/ha');
         if (response.ok) {
           const config = await response.json();
-          if (config.url) setUrl(config.url);
-          if (config.token) setToken(config.token);
+          if (config.mode === 'addon') setSupervisorMode(true);
+          if (config.url) {
+            setUrl(config.url);
+            setSavedUrl(config.url);
+          }
+          if (config.hasToken) setSavedToken(config.maskedToken || '********');
           console.log('Loaded saved config from database');
         }
       } catch (error) {
@@ -97,8 +109,15 @@ export const Settings: React.FC = () => {
 
   // Validate token format
   const validateToken = (value: string): boolean => {
+    // Leaving the field empty keeps the saved token
+    const sameUrl = !!savedUrl && url.trim().replace(/\/+$/, '') === savedUrl.replace(/\/+$/, '');
+    if (!value.trim() && savedToken && sameUrl) {
+      setTokenError('');
+      return true;
+    }
+
     if (!value.trim()) {
-      setTokenError('Access token is required');
+      setTokenError(savedToken ? 'Enter the access token for this URL' : 'Access token is required');
       return false;
     }
 
@@ -131,30 +150,28 @@ export const Settings: React.FC = () => {
     });
 
     try {
-      // Temporarily set auth to test the connection
-      apiClient.setAuth(url, token);
-
-      // Test the connection by making a health check
-      await apiClient.healthCheck();
-
-      setConnectionStatus({
-        status: 'success',
-        message: 'Connection successful! Home Assistant is reachable.',
-      });
+      // The backend reaches HA for us; the browser can't under ingress (CORS)
+      const result = await apiClient.testHAConnection(url, token);
+
+      setConnectionStatus(
+        result.success
+          ? {
+              status: 'success',
+              message: `Connection successful! Home Assistant ${result.version} with ${result.entityCount} entities.`,
+            }
+          : { status: 'error', message: result.message }
+      );
     } catch (error: any) {
       console.error('Connection test failed:', error);
       setConnectionStatus({
         status: 'error',
         message: error.message || 'Failed to connect to Home Assistant. Check URL and token.',
       });
-
-      // Restore previous auth if test failed
-      apiClient.setAuth(ingressUrl, accessToken);
     }
   };
 
   // Save settings
-  const handleSave = async () => {
+  const handleSave = async (force = false) => {
     // Validate before saving
     const isUrlValid = validateUrl(url);
     const isTokenValid = validateToken(token);
@@ -165,21 +182,18 @@ export const Settings: React.FC = () => {
 
     setIsSaving(true);
     setSaveSuccess(false);
+    setSaveRejected(false);
 
     try {
-      // Save to backend database (persistent across sessions)
-      const response = await fetch('/api/config/ha', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url, token }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to save configuration');
-      }
+      // Save to backend database (persistent across sessions); the backend
+      // tests the credentials first unless forced
+      await apiClient.saveHAConfig(url, token, force);
+      setSavedUrl(url);
 
       // Update local state
-      setAuth(url, token);
+      if (token.trim()) {
+        setAuth(url, token);
+      }
 
       setSaveSuccess(true);
       setConnectionStatus({
@@ -193,6 +207,7 @@ export const Settings: React.FC = () => {
       }, 3000);
     } catch (error: any) {
       console.error('Failed to save settings:', error);
+      setSaveRejected(!!error.code && !force);
       setConnectionStatus({
         status: 'error',
         message: error.message || 'Failed to save settings',
@@ -207,6 +222,7 @@ export const Settings: React.FC = () => {
     const newUrl = event.target.value;
     setUrl(newUrl);
     setSaveSuccess(false);
+    setSaveRejected(false);
     setConnectionStatus({ status: 'idle', message: '' });
 
     // Clear error when user starts typing
@@ -220,6 +236,7 @@ export const Settings: React.FC = () => {
     const newToken = event.target.value;
     setToken(newToken);
     setSaveSuccess(false);
+    setSaveRejected(false);
     setConnectionStatus({ status: 'idle', message: '' });
 
     // Clear error when user starts typing
@@ -304,132 +321,156 @@ export const Settings: React.FC = () => {
 
           <Divider />
 
-          {/* Home Assistant URL */}
-          <TextField
-            label="Home Assistant URL"
-            placeholder="http://homeassistant.local:8123"
-            value={url}
-            onChange={handleUrlChange}
-            onBlur={handleUrlBlur}
-            error={!!urlError}
-            helperText={
-              urlError || 'Enter the full URL of your Home Assistant instance'
-            }
-            fullWidth
-            required
-            disabled={isSaving || connectionStatus.status === 'testing'}
-            InputProps={{
-              endAdornment: url && (
-                <InputAdornment position="end">
-                  <IconButton
-                    edge="end"
-                    onClick={() => {
-                      setUrl('');
-                      setUrlError('');
-                    }}
-                    size="small"
-                  >
-                    <RefreshIcon />
-                  </IconButton>
-                </InputAdornment>
-              ),
-            }}
-          />
-
-          {/* Long-Lived Access Token */}
-          <TextField
-            label="Long-Lived Access Token"
-            placeholder="Enter your Home Assistant access token"
-            value={token}
-            onChange={handleTokenChange}
-            onBlur={handleTokenBlur}
-            error={!!tokenError}
-            helperText={
-              tokenError ||
-              'Create a long-lived access token in Home Assistant Profile settings'
-            }
-            fullWidth
-            required
-            type={showToken ? 'text' : 'password'}
-            disabled={isSaving || connectionStatus.status === 'testing'}
-            InputProps={{
-              endAdornment: (
-                <InputAdornment position="end">
-                  <IconButton
-                    edge="end"
-                    onClick={() => setShowToken(!showToken)}
-                    size="small"
-                  >
-                    {showToken ? <VisibilityOffIcon /> : <VisibilityIcon />}
-                  </IconButton>
-                </InputAdornment>
-              ),
-            }}
-          />
-
-          <Divider />
-
-          {/* Action Buttons */}
-          <Stack direction="row" spacing={2}>
-            <Button
-              variant="contained"
-              color="primary"
-              startIcon={
-                isSaving ? <CircularProgress size={20} /> : <SaveIcon />
-              }
-              onClick={handleSave}
-              disabled={
-                isSaving ||
-                connectionStatus.status === 'testing' ||
-                !url.trim() ||
-                !token.trim() ||
-                !!urlError ||
-                !!tokenError
+          {supervisorMode ? (
+            <Alert severity="info">
+              HAsync is running as a Home Assistant add-on and connects through the Supervisor.
+              No URL or access token needs to be configured.
+            </Alert>
+          ) : (
+            <>
+            {/* Home Assistant URL */}
+            <TextField
+              label="Home Assistant URL"
+              placeholder="http://homeassistant.local:8123"
+              value={url}
+              onChange={handleUrlChange}
+              onBlur={handleUrlBlur}
+              error={!!urlError}
+              helperText={
+                urlError || 'Enter the full URL of your Home Assistant instance'
               }
-            >
-              {isSaving ? 'Saving...' : 'Save Settings'}
-            </Button>
-
-            <Button
-              variant="outlined"
-              color="secondary"
-              startIcon={
-                connectionStatus.status === 'testing' ? (
-                  <CircularProgress size={20} />
-                ) : (
-                  <CheckCircleIcon />
-                )
+              fullWidth
+              required
+              disabled={isSaving || connectionStatus.status === 'testing'}
+              InputProps={{
+                endAdornment: url && (
+                  <InputAdornment position="end">
+                    <IconButton
+                      edge="end"
+                      onClick={() => {
+                        setUrl('');
+                        setUrlError('');
+                      }}
+                      size="small"
+                    >
+                      <RefreshIcon />
+                    </IconButton>
+                  </InputAdornment>
+                ),
+              }}
+            />
+
+            {/* Long-Lived Access Token */}
+            <TextField
+              label="Long-Lived Access Token"
+              placeholder={
+                savedToken
+                  ? `Saved token ${savedToken} - leave empty to keep it`
+                  : 'Enter your Home Assistant access token'
               }
-              onClick={testConnection}
-              disabled={
-                isSaving ||
-                connectionStatus.status === 'testing' ||
-                !url.trim() ||
-                !token.trim() ||
-                !!urlError ||
-                !!tokenError
+              value={token}
+              onChange={handleTokenChange}
+              onBlur={handleTokenBlur}
+              error={!!tokenError}
+              helperText={
+                tokenError ||
+                'Create a long-lived access token in Home Assistant Profile settings'
               }
-            >
-              {connectionStatus.status === 'testing'
-                ? 'Testing...'
-                : 'Test Connection'}
-            </Button>
-          </Stack>
-
-          {/* Help Information */}
-          <Box sx={{ mt: 2 }}>
-            <Typography variant="subtitle2" gutterBottom>
-              How to get a Long-Lived Access Token:
-            </Typography>
-            <Typography variant="body2" color="text.secondary" component="ol" sx={{ pl: 2 }}>
-              <li>Open Home Assistant</li>
-              <li>Click on your profile (bottom left)</li>
-              <li>Scroll down to "Long-Lived Access Tokens"</li>
-              <li>Click "Create Token"</li>
-              <li>Give it a name (e.g., "HAsync Management")</li>
-              <li>Copy the token and paste it above</li>
-            </Typography>
-          </Box>
+              fullWidth
+              required={!savedToken}
+              type={showToken ? 'text' : 'password'}
+              disabled={isSaving || connectionStatus.status === 'testing'}
+              InputProps={{
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <IconButton
+                      edge="end"
+                      onClick={() => setShowToken(!showToken)}
+                      size="small"
+                    >
+                      {showToken ? <VisibilityOffIcon /> : <VisibilityIcon />}
+                    </IconButton>
+                  </InputAdornment>
+                ),
+              }}
+            />
+
+            <Divider />
+
+            {/* Action Buttons */}
+            <Stack direction="row" spacing={2}>
+              <Button
+                variant="contained"
+                color="primary"
+                startIcon={
+                  isSaving ? <CircularProgress size={20} /> : <SaveIcon />
+                }
+                onClick={() => handleSave()}
+                disabled={
+                  isSaving ||
+                  connectionStatus.status === 'testing' ||
+                  !url.trim() ||
+                  (!token.trim() && !savedToken) ||
+                  !!urlError ||
+                  !!tokenError
+                }
+              >
+                {isSaving ? 'Saving...' : 'Save Settings'}
+              </Button>
+
+              {saveRejected && (
+                <Button
+                  variant="outlined"
+                  color="warning"
+                  onClick={() => handleSave(true)}
+                  disabled={isSaving}
+                >
+                  Save Anyway
+                </Button>
+              )}
+
+              <Button
+                variant="outlined"
+                color="secondary"
+                startIcon={
+                  connectionStatus.status === 'testing' ? (
+                    <CircularProgress size={20} />
+                  ) : (
+                    <CheckCircleIcon />
+                  )
+                }
+                onClick={testConnection}
+                disabled={
+                  isSaving ||
+                  connectionStatus.status === 'testing' ||
+                  !url.trim() ||
+                  (!token.trim() && !savedToken) ||
+                  !!urlError ||
+                  !!tokenError
+                }
+              >
+                {connectionStatus.status === 'testing'
+                  ? 'Testing...'
+                  : 'Test Connection'}
+              </Button>
+            </Stack>
+
+            {/* Help Information */}
+            <Box sx={{ mt: 2 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                How to get a Long-Lived Access Token:
+              </Typography>
+              <Typography variant="body2" color="text.secondary" component="ol" sx={{ pl: 2 }}>
+                <li>Open Home Assistant</li>
+                <li>Click on your profile (bottom left)</li>
+                <li>Scroll down to "Long-Lived Access Tokens"</li>
+                <li>Click "Create Token"</li>
+                <li>Give it a name (e.g., "HAsync Management")</li>
+                <li>Copy the token and paste it above</li>
+              </Typography>
+            </Box>
+            </>
+          )}
         </Stack>
       </Paper>
     </Box>
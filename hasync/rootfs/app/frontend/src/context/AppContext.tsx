@@ -45,6 +45,7 @@ interface AppState {
   setDashboards: (dashboards: Dashboard[]) => void;
   setClients: (clients: Client[]) => void;
   updateEntity: (entity: Entity) => void;
+  removeEntity: (entityId: string) => void;
   updateClient: (client: Client) => void;
   setEntityFilter: (filter: Partial<EntityFilter>) => void;
   toggleEntitySelection: (entityId: string) => void;
@@ -161,9 +162,14 @@ export const useAppStore = create<AppState>()(
 
       updateEntity: (entity) =>
         set((state) => ({
-          entities: state.entities.map((e) =>
-            e.id === entity.id ? entity : e
-          ),
+          entities: state.entities.some((e) => e.id === entity.id)
+            ? state.entities.map((e) => (e.id === entity.id ? entity : e))
+            : [...state.entities, entity],
+        })),
+
+      removeEntity: (entityId) =>
+        set((state) => ({
+          entities: state.entities.filter((e) => e.id !== entityId),
         })),
 
       updateClient: (client) =>
@@ -0,0 +1,82 @@
+import { useEffect } from 'react';
+import { wsClient } from '@/api/websocket';
+import { apiClient } from '@/api/client';
+import { useAppStore } from '@/context/AppContext';
+import type { ConfigUpdateEvent, EntityUpdateEvent } from '@/types';
+
+/**
+ * Keeps the store in sync with realtime updates. Mounted once, in App, so
+ * every event is handled once however many components use the socket.
+ */
+export const useRealtimeSync = () => {
+  const { isAuthenticated, setEntities, updateEntity, removeEntity, updateClient, setAreas, setDashboards } = useAppStore();
+
+  // Handlers are registered again after each login, as disconnecting clears them
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    // Offline for too long or the server restarted: reload every entity
+    const unsubResync = wsClient.on('resync_required', async () => {
+      try {
+        setEntities(await apiClient.getEntities());
+      } catch (error) {
+        console.error('Failed to reload entities:', error);
+      }
+    });
+
+    // Entity updates pushed from Home Assistant state changes
+    const unsubEntity = wsClient.on('entity_update', (data: EntityUpdateEvent) => {
+      if (data.newState) {
+        updateEntity(apiClient.toEntity(data.newState));
+      } else if (data.oldState) {
+        removeEntity(data.entityId);
+      }
+    });
+
+    // Client connections
+    const unsubClientConnect = wsClient.on('client_connected', (data) => {
+      updateClient(data.client);
+    });
+
+    const unsubClientDisconnect = wsClient.on('client_disconnected', (data) => {
+      updateClient(data.client);
+    });
+
+    // Area or dashboard changed elsewhere: reload unless already up to date
+    const unsubConfig = wsClient.on('config_update', async (data: ConfigUpdateEvent) => {
+      const { areas, dashboards } = useAppStore.getState();
+      const items: Array<{ id: string; version?: number }> = data.resource === 'area' ? areas : dashboards;
+      const current = items.find((item) => item.id === data.id);
+
+      if (data.action === 'deleted') {
+        if (data.resource === 'area') {
+          setAreas((prev) => prev.filter((area) => area.id !== data.id));
+        } else {
+          setDashboards(dashboards.filter((dashboard) => dashboard.id !== data.id));
+        }
+        return;
+      }
+      if (current?.version !== undefined && data.version !== null && current.version >= data.version) {
+        return;
+      }
+
+      try {
+        if (data.resource === 'area') {
+          setAreas(await apiClient.getAreas());
+        } else {
+          setDashboards(await apiClient.getDashboards());
+        }
+      } catch (error) {
+        console.error(`Failed to reload ${data.resource}s:`, error);
+      }
+    });
+
+    return () => {
+      unsubResync();
+      unsubEntity();
+      unsubClientConnect();
+      unsubClientDisconnect();
+      unsubConfig();
+    };
+  }, [isAuthenticated, setEntities, updateEntity, removeEntity, updateClient, setAreas, setDashboards]);
+};
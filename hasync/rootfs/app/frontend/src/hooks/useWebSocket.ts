@@ -1,10 +1,8 @@
-import { useEffect, useCallback } from 'react';
+import { useCallback } from 'react';
 import { wsClient } from '@/api/websocket';
-import { useAppStore } from '@/context/AppContext';
 
+// Store updates from realtime events live in useRealtimeSync, mounted once in App
 export const useWebSocket = () => {
-  const { updateEntity, updateClient } = useAppStore();
-
   const connect = useCallback(() => {
     wsClient.connect();
   }, []);
@@ -13,29 +11,6 @@ export const useWebSocket = () => {
     wsClient.disconnect();
   }, []);
 
-  useEffect(() => {
-    // Entity updates
-    const unsubEntity = wsClient.on('entity_update', (data) => {
-      updateEntity(data.entity);
-    });
-
-    // Client connections
-    const unsubClientConnect = wsClient.on('client_connected', (data) => {
-      updateClient(data.client);
-    });
-
-    const unsubClientDisconnect = wsClient.on('client_disconnected', (data) => {
-      updateClient(data.client);
-    });
-
-    // Cleanup
-    return () => {
-      unsubEntity();
-      unsubClientConnect();
-      unsubClientDisconnect();
-    };
-  }, [updateEntity, updateClient]);
-
   return {
     connect,
     disconnect,
@@ -15,12 +15,39 @@ export interface Area {
   isEnabled?: boolean;
   createdAt?: string | Date;
   updatedAt?: string | Date;
+  // Incremented by the server on every change
+  version?: number;
+}
+
+// Home Assistant changes to a linked area awaiting review
+export interface AreaLinkDiff {
+  added: string[];
+  removed: string[];
+  name?: { from: string; to: string };
+  areaRemoved?: boolean;
+}
+
+export interface AreaLink {
+  areaId: string;
+  haAreaId: string;
+  linked: boolean;
+  haName: string;
+  haEntityIds: string[];
+  pendingDiff: AreaLinkDiff | null;
+  diffDetectedAt: number | null;
+}
+
+export interface AreaImportResult {
+  imported: Array<Area & { haAreaId: string; linked: boolean }>;
+  skipped: Array<{ haAreaId: string; reason: 'already_imported' | 'not_found' }>;
 }
 
 export interface Dashboard {
   id: string;
   name: string;
   views: DashboardView[];
+  isDefault?: boolean;
+  version?: number;
 }
 
 export interface DashboardView {
@@ -46,16 +73,79 @@ export interface Client {
   assignedAreas: string[];
   assignedDashboard?: string;
   lastSeen: Date;
+  pairedAt?: Date;
+  // When the client certificate from pairing expires
+  certificateExpiresAt?: Date;
   ipAddress?: string;
+  // Open realtime connections while online
+  connections?: ClientConnection[];
+}
+
+export interface ClientConnection {
+  connectionId: string;
+  transport: string;
+  ipAddress?: string;
+  connectedAt: string;
+  lastHeartbeat: string;
 }
 
 export interface PairingSession {
   id: string;
   pin: string;
   clientId?: string;
-  status: 'pending' | 'active' | 'completed' | 'expired';
+  status: 'pending' | 'pending_approval' | 'active' | 'completed' | 'rejected' | 'expired';
+  // Approval mode: the device that submitted the PIN
+  request?: PairingRequestDetails;
   createdAt: Date;
   expiresAt: Date;
+  // Only while pending
+  qrCode?: PairingQRCode;
+}
+
+export interface PairingRequestDetails {
+  deviceName: string;
+  deviceType: string;
+  ipAddress?: string;
+  requestedAt: Date;
+}
+
+// hasync:// URI with server URL, session, PIN and certificate fingerprint
+export interface PairingQRCode {
+  uri: string;
+  svg: string;
+  pngDataUrl: string;
+}
+
+// Sent by the device to complete a pairing session
+export interface PairingCompletionRequest {
+  pin: string;
+  device_name: string;
+  device_type: string;
+  // PEM public key, or a PKCS#10 CSR signed with the device key
+  public_key?: string;
+  csr?: string;
+}
+
+export interface PairingCompletion {
+  client: Client;
+  // X.509 client certificate, also the credential for /ws authentication
+  certificate: string;
+  // Issuer of the client certificate
+  caCertificate: string;
+}
+
+// Pushed to admins when a device used a pairing session
+export interface PairingCompletedEvent {
+  session: PairingSession;
+  client: Client;
+  timestamp: string;
+}
+
+// Pushed to admins when a device awaits approval
+export interface PairingRequestEvent {
+  session: PairingSession;
+  request: PairingRequestDetails;
+  timestamp: string;
 }
 
 export interface AppConfig {
@@ -67,6 +157,26 @@ export interface AppConfig {
   clients: Client[];
 }
 
+export type HAConnectionTestCategory =
+  | 'invalid_url'
+  | 'unreachable'
+  | 'timeout'
+  | 'tls_error'
+  | 'auth_invalid'
+  | 'forbidden'
+  | 'not_home_assistant'
+  | 'http_error';
+
+export interface HAConnectionTestResult {
+  success: boolean;
+  category?: HAConnectionTestCategory;
+  message: string;
+  version?: string;
+  locationName?: string;
+  entityCount?: number;
+  latencyMs: number;
+}
+
 export interface EntityFilter {
   search: string;
   types: string[];
@@ -81,6 +191,60 @@ export interface ApiError {
   details?: any;
 }
 
+// Pushed by the backend when Home Assistant reports a state change; states
+// are null when the entity was added (old) or removed (new)
+export interface EntityUpdateEvent {
+  entityId: string;
+  instanceId: string;
+  oldState: Record<string, any> | null;
+  newState: Record<string, any> | null;
+  source: 'homeassistant';
+  timestamp: string;
+  seq?: number;
+}
+
+// Service call over the realtime connection; entity IDs may be namespaced
+export interface ServiceCallRequest {
+  domain: string;
+  service: string;
+  service_data?: Record<string, any>;
+  target?: {
+    entity_id?: string | string[];
+    area_id?: string | string[];
+    device_id?: string | string[];
+  };
+  instance_id?: string;
+}
+
+export type ServiceCallResponse =
+  | { success: true; result: any }
+  | { success: false; error: { code: string; message: string } };
+
+// Where a realtime client resumes from after reconnecting
+// Pushed to the areas or dashboards room after a write
+export interface ConfigUpdateEvent {
+  resource: 'area' | 'dashboard';
+  id: string;
+  action: 'created' | 'updated' | 'deleted';
+  // null once deleted
+  version: number | null;
+  timestamp: string;
+}
+
+export interface ReplayPosition {
+  seq: number;
+  // Changes when the server restarts
+  epoch: string;
+}
+
+// Limits entity subscriptions; entities matching any field are sent
+export interface EntitySubscriptionFilter {
+  entity_ids?: string[];
+  // Globs such as `sensor.*_power`
+  patterns?: string[];
+  area_ids?: string[];
+}
+
 export interface WebSocketMessage {
   type: 'entity_update' | 'client_connected' | 'client_disconnected' | 'pairing_request' | 'config_update';
   payload: any;
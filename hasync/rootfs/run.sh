@@ -11,6 +11,8 @@ DATABASE_PATH=$(bashio::config 'database_path')
 LOG_LEVEL=$(bashio::config 'log_level')
 MAX_CLIENTS=$(bashio::config 'max_clients')
 RATE_LIMIT=$(bashio::config 'rate_limit')
+LEGACY_CERTIFICATE_AUTH=$(bashio::config 'legacy_certificate_auth')
+PAIRING_APPROVAL=$(bashio::config 'pairing_approval')
 
 # Export configuration as environment variables
 export JWT_SECRET
@@ -18,6 +20,8 @@ export DATABASE_PATH
 export LOG_LEVEL
 export MAX_CLIENTS
 export RATE_LIMIT
+export LEGACY_CERTIFICATE_AUTH
+export PAIRING_APPROVAL
 
 bashio::log.info "Configuration loaded:"
 bashio::log.info "- Database: ${DATABASE_PATH}"